@@ -0,0 +1,102 @@
+// actions/access-token-actions.ts
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { recordAuditEvent } from '@/lib/audit/log'
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  MAX_ACCESS_TOKEN_NAME_LENGTH,
+  isAccessTokenScope,
+} from '@/lib/firebase/access-token'
+import { createAccessToken, revokeAccessToken } from '@/lib/firebase/access-tokens'
+import {
+  AuthorizationError,
+  authenticate,
+  type AuthenticatedUser,
+} from '@/lib/firebase/guards'
+import { authedAction } from '@/lib/firebase/with-auth'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface CreateAccessTokenState {
+  // The new token, shown once
+  token?: string
+  error?: string
+}
+
+// Access tokens are rejected here: creating or revoking tokens needs a signed-in
+// user, and support staff impersonating one may not do either
+export async function createAccessTokenAction(
+  _previousState: CreateAccessTokenState,
+  formData: FormData
+): Promise<CreateAccessTokenState> {
+  let user: AuthenticatedUser
+  try {
+    user = await authenticate({ sensitive: true })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return { error: error.message }
+    }
+    throw error
+  }
+
+  const nameValue = formData.get('name')
+  const name = typeof nameValue === 'string' ? nameValue.trim() : ''
+  const scopes = formData.getAll('scopes').filter(isAccessTokenScope)
+  const expiryValue = formData.get('expiresInDays')
+  const expiresInDays = expiryValue === 'never' ? null : Number(expiryValue)
+
+  if (!name) {
+    return { error: 'Give the token a name.' }
+  }
+
+  if (name.length > MAX_ACCESS_TOKEN_NAME_LENGTH) {
+    return { error: `Name must be at most ${MAX_ACCESS_TOKEN_NAME_LENGTH} characters.` }
+  }
+
+  if (scopes.length === 0) {
+    return { error: 'Choose at least one scope.' }
+  }
+
+  if (!(ACCESS_TOKEN_EXPIRY_DAYS as readonly (number | null)[]).includes(expiresInDays)) {
+    return { error: 'Unknown expiry.' }
+  }
+
+  const { token, record } = await createAccessToken(user.uid, {
+    name,
+    scopes,
+    expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY_MS),
+  })
+  await recordAuditEvent({
+    type: 'access-token-created',
+    uid: user.uid,
+    details: { tokenId: record.id, name, scopes: scopes.join(',') },
+  })
+
+  revalidatePath('/tokens')
+  return { token }
+}
+
+export const revokeAccessTokenAction = authedAction(
+  async (user, formData: FormData) => {
+    const tokenId = formData.get('tokenId')
+
+    if (typeof tokenId !== 'string' || !tokenId) {
+      throw new Error('Missing token ID')
+    }
+
+    // Only matches tokens owned by the caller
+    if (!(await revokeAccessToken(user.uid, tokenId))) {
+      throw new Error('Token not found')
+    }
+
+    await recordAuditEvent({
+      type: 'access-token-revoked',
+      uid: user.uid,
+      details: { tokenId },
+    })
+
+    revalidatePath('/tokens')
+  },
+  { sensitive: true }
+)
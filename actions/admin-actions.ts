@@ -0,0 +1,106 @@
+// actions/admin-actions.ts
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { revokeAllAccessTokens } from '@/lib/firebase/access-tokens'
+import { adminAuth, setUserRoles } from '@/lib/firebase/admin'
+import { requireRole } from '@/lib/firebase/guards'
+import { isRole } from '@/lib/firebase/roles'
+import { terminateAllSessions } from '@/lib/firebase/sessions'
+
+// Every action re-checks the admin role; the (admin) layout alone is not enough
+// because server actions can be invoked directly.
+async function requireAdminTarget(formData: FormData) {
+  const admin = await requireRole('admin')
+  const uid = formData.get('uid')
+
+  if (typeof uid !== 'string' || !uid) {
+    throw new Error('Missing user ID')
+  }
+
+  return { admin, uid }
+}
+
+function revalidateUser(uid: string) {
+  revalidatePath('/admin/users')
+  revalidatePath(`/admin/users/${uid}`)
+}
+
+export async function setUserDisabledAction(formData: FormData) {
+  const { admin, uid } = await requireAdminTarget(formData)
+  const disabled = formData.get('disabled') === 'true'
+
+  if (disabled && uid === admin.uid) {
+    throw new Error('You cannot disable your own account')
+  }
+
+  await adminAuth.updateUser(uid, { disabled })
+  await recordAuditEvent({
+    type: disabled ? 'user-disabled' : 'user-enabled',
+    uid,
+    actorUid: admin.uid,
+  })
+  revalidateUser(uid)
+}
+
+export async function revokeUserTokensAction(formData: FormData) {
+  const { admin, uid } = await requireAdminTarget(formData)
+
+  await adminAuth.revokeRefreshTokens(uid)
+  await terminateAllSessions(uid)
+  await revokeAllAccessTokens(uid)
+  await recordAuditEvent({ type: 'tokens-revoked', uid, actorUid: admin.uid })
+  revalidateUser(uid)
+}
+
+export async function markEmailVerifiedAction(formData: FormData) {
+  const { admin, uid } = await requireAdminTarget(formData)
+
+  await adminAuth.updateUser(uid, { emailVerified: true })
+  await recordAuditEvent({ type: 'email-verified', uid, actorUid: admin.uid })
+  revalidateUser(uid)
+}
+
+export async function updateDisplayNameAction(formData: FormData) {
+  const { admin, uid } = await requireAdminTarget(formData)
+  const value = formData.get('displayName')
+  const displayName = typeof value === 'string' && value.trim() ? value.trim() : null
+
+  await adminAuth.updateUser(uid, { displayName })
+  await recordAuditEvent({
+    type: 'display-name-changed',
+    uid,
+    actorUid: admin.uid,
+    details: { displayName },
+  })
+  revalidateUser(uid)
+}
+
+export async function updateUserRolesAction(formData: FormData) {
+  const { admin, uid } = await requireAdminTarget(formData)
+  const roles = formData.getAll('roles').filter(isRole)
+
+  await setUserRoles(uid, roles)
+  await recordAuditEvent({
+    type: 'roles-changed',
+    uid,
+    actorUid: admin.uid,
+    details: { roles: roles.join(',') },
+  })
+  revalidateUser(uid)
+}
+
+export async function deleteUserAction(formData: FormData) {
+  const { admin, uid } = await requireAdminTarget(formData)
+
+  if (uid === admin.uid) {
+    throw new Error('You cannot delete your own account')
+  }
+
+  await adminAuth.deleteUser(uid)
+  await recordAuditEvent({ type: 'user-deleted', uid, actorUid: admin.uid })
+  revalidatePath('/admin/users')
+  redirect('/admin/users')
+}
@@ -1,42 +1,36 @@
 // actions/auth-actions.ts
 'use server'
 
-import { cookies } from 'next/headers'
-import { verifyIdToken } from '@/lib/firebase/admin'
+import { AuthorizationError, authenticate } from '@/lib/firebase/guards'
+import { getProfile, syncProfile } from '@/lib/firebase/profiles'
+import { authedAction } from '@/lib/firebase/with-auth'
 
 export async function getAuthenticatedUser() {
-  const cookieStore = await cookies()
-  const sessionCookie = cookieStore.get('__session')?.value
-
-  if (!sessionCookie) {
-    return { isAuthenticated: false, user: null }
-  }
-
-  const decodedToken = await verifyIdToken(sessionCookie)
-
-  if (!decodedToken) {
-    return { isAuthenticated: false, user: null }
-  }
-
-  return {
-    isAuthenticated: true,
-    user: {
-      uid: decodedToken.uid,
-      email: decodedToken.email,
-    },
+  try {
+    return { isAuthenticated: true, user: await authenticate() }
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return { isAuthenticated: false, user: null }
+    }
+    throw error
   }
 }
 
-export async function protectedServerAction(formData: FormData) {
+// Load the signed-in user's profile, creating it for sessions minted before profiles existed
+export async function getAuthenticatedProfile() {
   const { isAuthenticated, user } = await getAuthenticatedUser()
 
-  if (!isAuthenticated) {
-    throw new Error('Unauthorized')
+  if (!isAuthenticated || !user) {
+    return null
   }
 
+  return (await getProfile(user.uid)) ?? (await syncProfile(user.uid))
+}
+
+export const protectedServerAction = authedAction(async (user, formData: FormData) => {
   // Perform protected operation
   const data = formData.get('data')
   // Process data...
 
-  return { success: true, userId: user?.uid }
-}
+  return { success: true, userId: user.uid }
+})
@@ -0,0 +1,72 @@
+// actions/profile-actions.ts
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { getAuthenticatedUser } from './auth-actions'
+import { isTheme, isTimezone } from '@/lib/firebase/profile'
+import { updateProfile } from '@/lib/firebase/profiles'
+
+const MAX_DISPLAY_NAME_LENGTH = 100
+
+export interface ProfileFormState {
+  success?: boolean
+  error?: string
+}
+
+function optionalString(formData: FormData, name: string): string | null {
+  const value = formData.get(name)
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+export async function updateProfileAction(
+  _previousState: ProfileFormState,
+  formData: FormData
+): Promise<ProfileFormState> {
+  const { isAuthenticated, user } = await getAuthenticatedUser()
+
+  if (!isAuthenticated || !user) {
+    return { error: 'Your session has expired. Please sign in again.' }
+  }
+
+  if (user.impersonatedBy) {
+    return { error: 'Profiles cannot be edited while impersonating a user.' }
+  }
+
+  const displayName = optionalString(formData, 'displayName')
+  const photoURL = optionalString(formData, 'photoURL')
+  const timezone = optionalString(formData, 'timezone')
+  const theme = formData.get('theme')
+
+  if (displayName && displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    return { error: `Display name must be at most ${MAX_DISPLAY_NAME_LENGTH} characters.` }
+  }
+
+  if (photoURL && !URL.canParse(photoURL)) {
+    return { error: 'Avatar must be a valid URL.' }
+  }
+
+  if (photoURL && new URL(photoURL).protocol !== 'https:') {
+    return { error: 'Avatar URL must use https.' }
+  }
+
+  if (timezone && !isTimezone(timezone)) {
+    return { error: 'Unknown timezone.' }
+  }
+
+  if (!isTheme(theme)) {
+    return { error: 'Unknown theme.' }
+  }
+
+  await updateProfile(user.uid, {
+    displayName,
+    photoURL,
+    timezone,
+    preferences: {
+      theme,
+      emailNotifications: formData.get('emailNotifications') === 'on',
+    },
+  })
+
+  revalidatePath('/profile')
+  return { success: true }
+}
@@ -0,0 +1,27 @@
+// actions/role-actions.ts
+'use server'
+
+import { recordAuditEvent } from '@/lib/audit/log'
+import { setUserRoles } from '@/lib/firebase/admin'
+import { isRole } from '@/lib/firebase/roles'
+import { authedAction } from '@/lib/firebase/with-auth'
+import type { Role } from '@/types/auth'
+
+export const setUserRolesAction = authedAction(
+  async (admin, uid: string, roles: Role[]) => {
+    if (!roles.every(isRole)) {
+      throw new Error('Invalid role')
+    }
+
+    await setUserRoles(uid, roles)
+    await recordAuditEvent({
+      type: 'roles-changed',
+      uid,
+      actorUid: admin.uid,
+      details: { roles: roles.join(',') },
+    })
+
+    return { success: true, uid, roles }
+  },
+  { roles: ['admin'] }
+)
@@ -0,0 +1,47 @@
+// actions/session-actions.ts
+'use server'
+
+import { cookies } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { AuthorizationError } from '@/lib/firebase/guards'
+import { impersonatorFromClaims } from '@/lib/firebase/impersonation'
+import { SESSION_COOKIE_NAME } from '@/lib/firebase/session'
+import { sessionIdFor, terminateSession, verifySession } from '@/lib/firebase/sessions'
+
+export async function terminateSessionAction(formData: FormData) {
+  const sessionCookie = (await cookies()).get(SESSION_COOKIE_NAME)?.value
+  const decodedToken = sessionCookie ? await verifySession(sessionCookie) : null
+
+  if (!sessionCookie || !decodedToken) {
+    throw new Error('Unauthorized')
+  }
+
+  if (impersonatorFromClaims(decodedToken)) {
+    throw new AuthorizationError('impersonation-restricted')
+  }
+
+  const sessionId = formData.get('sessionId')
+
+  if (typeof sessionId !== 'string' || !sessionId) {
+    throw new Error('Missing session ID')
+  }
+
+  // The current session is ended by signing out, which also clears the cookie
+  if (sessionId === sessionIdFor(sessionCookie)) {
+    throw new Error('Use Sign Out to end the current session')
+  }
+
+  // Only matches sessions owned by the caller
+  if (!(await terminateSession(decodedToken.uid, sessionId))) {
+    throw new Error('Session not found')
+  }
+
+  await recordAuditEvent({
+    type: 'session-terminated',
+    uid: decodedToken.uid,
+    details: { sessionId },
+  })
+
+  revalidatePath('/sessions')
+}
@@ -0,0 +1,76 @@
+// app/(admin)/admin/audit/page.tsx
+import { AuditEventTable } from '@/components/audit/AuditEventTable';
+import { AUDIT_EVENT_LABELS, AUDIT_EVENT_TYPES } from '@/lib/audit/events';
+import { auditFiltersFromParams, queryAuditEvents } from '@/lib/audit/log';
+import { requireRoleOrRedirect } from '@/lib/firebase/guards';
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+export default async function AdminAuditPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ uid?: string; type?: string; from?: string; to?: string }>;
+}) {
+  // Client navigation can render the page without the layout's check
+  await requireRoleOrRedirect('admin');
+
+  const params = await searchParams;
+  const events = await queryAuditEvents(auditFiltersFromParams(params));
+
+  // Export the same filters the table shows
+  const exportQuery = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <a
+          href={`/api/admin/audit/export?${exportQuery}`}
+          className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <form className="flex flex-wrap gap-2 mb-6 text-sm">
+        <input
+          type="search"
+          name="uid"
+          defaultValue={params.uid}
+          placeholder="User ID"
+          className={inputClassName}
+        />
+        <select name="type" defaultValue={params.type ?? ''} className={inputClassName}>
+          <option value="">All events</option>
+          {AUDIT_EVENT_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {AUDIT_EVENT_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          name="from"
+          defaultValue={params.from}
+          aria-label="From"
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          name="to"
+          defaultValue={params.to}
+          aria-label="To"
+          className={inputClassName}
+        />
+        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Filter
+        </button>
+      </form>
+
+      <AuditEventTable events={events} showUser />
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+// app/(admin)/admin/users/[uid]/page.tsx
+import { notFound } from 'next/navigation';
+import {
+  deleteUserAction,
+  markEmailVerifiedAction,
+  revokeUserTokensAction,
+  setUserDisabledAction,
+  updateDisplayNameAction,
+  updateUserRolesAction,
+} from '@/actions/admin-actions';
+import { ConfirmSubmitButton } from '@/components/admin/ConfirmSubmitButton';
+import { ImpersonateButton } from '@/components/admin/ImpersonateButton';
+import { requireRoleOrRedirect } from '@/lib/firebase/guards';
+import { getUserRecord } from '@/lib/firebase/user-admin';
+import { ROLES, rolesFromClaims } from '@/lib/firebase/roles';
+
+export default async function AdminUserDetailPage({
+  params,
+}: {
+  params: Promise<{ uid: string }>;
+}) {
+  // Client navigation can render the page without the layout's check
+  await requireRoleOrRedirect('admin');
+
+  const { uid } = await params;
+  const user = await getUserRecord(uid);
+
+  if (!user) {
+    notFound();
+  }
+
+  const roles = rolesFromClaims(user.customClaims);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-gray-900">
+          {user.displayName || user.email || user.uid}
+        </h1>
+        <p className="text-gray-600">{user.email}</p>
+
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6 text-sm">
+          <div>
+            <dt className="font-semibold text-gray-900">User ID</dt>
+            <dd className="font-mono text-gray-700 break-all">{user.uid}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-900">Status</dt>
+            <dd className={user.disabled ? 'text-red-600' : 'text-green-700'}>
+              {user.disabled ? 'Disabled' : 'Active'}
+            </dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-900">Email Verified</dt>
+            <dd className="text-gray-700">{user.emailVerified ? 'Yes ✓' : 'No ✗'}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-900">Roles</dt>
+            <dd className="text-gray-700">{roles.length > 0 ? roles.join(', ') : 'None'}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-900">Account Created</dt>
+            <dd className="text-gray-700">{user.metadata.creationTime}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-900">Last Sign In</dt>
+            <dd className="text-gray-700">{user.metadata.lastSignInTime || 'Never'}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-900">Last Refresh</dt>
+            <dd className="text-gray-700">{user.metadata.lastRefreshTime || 'Never'}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold text-gray-900">Tokens Valid After</dt>
+            <dd className="text-gray-700">{user.tokensValidAfterTime || '—'}</dd>
+          </div>
+        </dl>
+
+        <h2 className="text-lg font-semibold text-gray-900 mt-8 mb-2">Providers</h2>
+        <ul className="space-y-1 text-sm text-gray-700">
+          {user.providerData.map((info) => (
+            <li key={info.providerId}>
+              <span className="font-mono">{info.providerId}</span>
+              {info.email && ` — ${info.email}`}
+            </li>
+          ))}
+          {user.providerData.length === 0 && <li>None</li>}
+        </ul>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+        <h2 className="text-lg font-semibold text-gray-900">Actions</h2>
+
+        <form action={updateDisplayNameAction} className="flex gap-2">
+          <input type="hidden" name="uid" value={user.uid} />
+          <input
+            type="text"
+            name="displayName"
+            defaultValue={user.displayName}
+            placeholder="Display name"
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            Save name
+          </button>
+        </form>
+
+        <form action={updateUserRolesAction} className="flex items-center gap-4">
+          <input type="hidden" name="uid" value={user.uid} />
+          {ROLES.map((role) => (
+            <label key={role} className="flex items-center gap-1 text-sm text-gray-700">
+              <input type="checkbox" name="roles" value={role} defaultChecked={roles.includes(role)} />
+              {role}
+            </label>
+          ))}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            Save roles
+          </button>
+        </form>
+
+        <div className="flex flex-wrap gap-3">
+          <form action={setUserDisabledAction}>
+            <input type="hidden" name="uid" value={user.uid} />
+            <input type="hidden" name="disabled" value={String(!user.disabled)} />
+            <button type="submit" className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">
+              {user.disabled ? 'Enable account' : 'Disable account'}
+            </button>
+          </form>
+
+          <form action={revokeUserTokensAction}>
+            <input type="hidden" name="uid" value={user.uid} />
+            <button type="submit" className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">
+              Revoke all tokens
+            </button>
+          </form>
+
+          {!user.emailVerified && user.email && (
+            <form action={markEmailVerifiedAction}>
+              <input type="hidden" name="uid" value={user.uid} />
+              <button type="submit" className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50">
+                Mark email verified
+              </button>
+            </form>
+          )}
+
+          {/* The API also refuses admins, guests and disabled accounts */}
+          {!roles.includes('admin') && user.providerData.length > 0 && !user.disabled && (
+            <ImpersonateButton uid={user.uid} label={user.email || user.uid} />
+          )}
+
+          <form action={deleteUserAction}>
+            <input type="hidden" name="uid" value={user.uid} />
+            <ConfirmSubmitButton
+              message={`Permanently delete ${user.email || user.uid}?`}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+            >
+              Delete user
+            </ConfirmSubmitButton>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
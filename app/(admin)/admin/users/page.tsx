@@ -0,0 +1,99 @@
+// app/(admin)/admin/users/page.tsx
+import Link from 'next/link';
+import { requireRoleOrRedirect } from '@/lib/firebase/guards';
+import { searchUsers } from '@/lib/firebase/user-admin';
+
+export default async function AdminUsersPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string; pageToken?: string }>;
+}) {
+  // Client navigation can render the page without the layout's check
+  await requireRoleOrRedirect('admin');
+
+  const { q, pageToken } = await searchParams;
+  const { users, nextPageToken } = await searchUsers(q, pageToken);
+
+  const nextHref = nextPageToken
+    ? `/admin/users?${new URLSearchParams({ ...(q ? { q } : {}), pageToken: nextPageToken })}`
+    : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+        <form className="flex gap-2">
+          <input
+            type="search"
+            name="q"
+            defaultValue={q}
+            placeholder="Email, UID, phone or name"
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Search
+          </button>
+        </form>
+      </div>
+
+      <table className="w-full text-left text-sm">
+        <thead className="border-b border-gray-200 text-gray-600">
+          <tr>
+            <th className="py-2">User</th>
+            <th className="py-2">Providers</th>
+            <th className="py-2">Status</th>
+            <th className="py-2">Last sign-in</th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map((user) => (
+            <tr key={user.uid} className="border-b border-gray-100">
+              <td className="py-3">
+                <Link href={`/admin/users/${user.uid}`} className="text-blue-600 hover:underline">
+                  {user.email || user.phoneNumber || user.uid}
+                </Link>
+                {user.displayName && <p className="text-gray-500">{user.displayName}</p>}
+              </td>
+              <td className="py-3 text-gray-700">
+                {user.providerData.map((info) => info.providerId).join(', ') || '—'}
+              </td>
+              <td className="py-3">
+                {user.disabled ? (
+                  <span className="text-red-600">Disabled</span>
+                ) : (
+                  <span className="text-green-700">Active</span>
+                )}
+              </td>
+              <td className="py-3 text-gray-700">{user.metadata.lastSignInTime || 'Never'}</td>
+            </tr>
+          ))}
+          {users.length === 0 && (
+            <tr>
+              <td colSpan={4} className="py-6 text-center text-gray-500">
+                No users found
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="flex justify-between mt-6 text-sm">
+        {pageToken ? (
+          <Link href={q ? `/admin/users?q=${encodeURIComponent(q)}` : '/admin/users'} className="text-blue-600 hover:underline">
+            ← First page
+          </Link>
+        ) : (
+          <span />
+        )}
+        {nextHref && (
+          <Link href={nextHref} className="text-blue-600 hover:underline">
+            Next page →
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+// app/(admin)/layout.tsx
+import Link from 'next/link';
+import { SignedOutRedirect } from '@/components/auth/SignedOutRedirect';
+import { requireRoleOrRedirect } from '@/lib/firebase/guards';
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requireRoleOrRedirect('admin');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SignedOutRedirect />
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-6">
+              <Link href="/admin/users" className="text-xl font-semibold text-gray-900">
+                Admin
+              </Link>
+              <Link href="/admin/users" className="text-sm text-gray-700 hover:underline">
+                Users
+              </Link>
+              <Link href="/admin/audit" className="text-sm text-gray-700 hover:underline">
+                Audit Log
+              </Link>
+            </div>
+            <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+              Back to dashboard
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">{children}</main>
+    </div>
+  );
+}
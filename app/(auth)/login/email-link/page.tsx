@@ -0,0 +1,141 @@
+// app/(auth)/login/email-link/page.tsx
+'use client';
+
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { getStoredSignInEmail, isEmailSignInLink } from '@/lib/firebase/auth';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+type Step = 'checking' | 'request' | 'sent' | 'confirm' | 'completing';
+
+export default function EmailLinkPage() {
+  const { sendSignInLink, completeEmailLinkSignIn } = useAuth();
+  const router = useRouter();
+  const [step, setStep] = useState<Step>('checking');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const checkedRef = useRef(false);
+
+  // Landing here from the emailed link completes sign-in; otherwise ask for an email
+  useEffect(() => {
+    if (checkedRef.current) {
+      return;
+    }
+    checkedRef.current = true;
+    const url = window.location.href;
+
+    const run = async () => {
+      if (!isEmailSignInLink(url)) {
+        setStep('request');
+        return;
+      }
+
+      const storedEmail = getStoredSignInEmail();
+      if (!storedEmail) {
+        // Link opened on a different device - ask the user to confirm their email
+        setStep('confirm');
+        return;
+      }
+
+      setStep('completing');
+      try {
+        await completeEmailLinkSignIn(storedEmail, url);
+        router.replace('/dashboard');
+      } catch (error) {
+        setError(getAuthErrorMessage(error));
+        setStep('request');
+      }
+    };
+
+    run();
+  }, [completeEmailLinkSignIn, router]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    if (step === 'confirm') {
+      setStep('completing');
+      try {
+        await completeEmailLinkSignIn(email, window.location.href);
+        router.replace('/dashboard');
+      } catch (error) {
+        setError(getAuthErrorMessage(error));
+        setStep('confirm');
+      }
+      return;
+    }
+
+    try {
+      await sendSignInLink(email);
+      setStep('sent');
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    }
+  };
+
+  if (step === 'checking' || step === 'completing') {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-lg">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">
+            {step === 'confirm' ? 'Confirm Your Email' : 'Sign In with Email Link'}
+          </h1>
+          <p className="mt-2 text-sm text-gray-600">
+            {step === 'confirm'
+              ? 'Enter the email address the sign-in link was sent to'
+              : "We'll email you a link that signs you in, no password needed"}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {step === 'sent' ? (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-700">
+              Check {email} for your sign-in link.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <input
+              type="email"
+              placeholder="Email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              {step === 'confirm' ? 'Sign in' : 'Email me a link'}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          <Link href="/login" className="text-blue-600 hover:underline">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
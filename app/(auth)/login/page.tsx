@@ -1,59 +1,21 @@
 // app/(auth)/login/page.tsx
-'use client';
-
-import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { useAuth } from '@/context/AuthContext';
-import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons';
-
-export default function LoginPage() {
-  const { user, loading } = useAuth();
-  const router = useRouter();
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!loading && user) {
-      router.push('/dashboard');
-    }
-  }, [user, loading, router]);
-
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
-      </div>
-    );
+import { redirect } from 'next/navigation';
+import { LoginForm } from '@/components/auth/LoginForm';
+import { getCurrentUser } from '@/lib/firebase/guards';
+import { sanitizeReturnTo } from '@/utils/redirects';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ returnTo?: string }>;
+}) {
+  const returnTo = sanitizeReturnTo((await searchParams).returnTo);
+  const user = await getCurrentUser();
+
+  // Guests stay here to sign in; that upgrades their account
+  if (user && !user.isGuest) {
+    redirect(returnTo);
   }
 
-  if (user) {
-    return null;
-  }
-
-  return (
-    <div className="flex items-center justify-center min-h-screen bg-gray-50">
-      <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-lg">
-        <div className="text-center">
-          <h1 className="text-3xl font-bold text-gray-900">Welcome Back</h1>
-          <p className="mt-2 text-sm text-gray-600">
-            Sign in to your account to continue
-          </p>
-        </div>
-
-        {error && (
-          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
-            <p className="text-sm text-red-600">{error}</p>
-          </div>
-        )}
-
-        <SocialLoginButtons
-          onSuccess={() => router.push('/dashboard')}
-          onError={(message) => setError(message)}
-        />
-
-        <div className="text-center text-sm text-gray-600">
-          <p>By signing in, you agree to our Terms of Service and Privacy Policy</p>
-        </div>
-      </div>
-    </div>
-  );
+  return <LoginForm returnTo={returnTo} />;
 }
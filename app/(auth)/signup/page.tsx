@@ -0,0 +1,84 @@
+// app/(auth)/signup/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { EmailPasswordForm } from '@/components/auth/EmailPasswordForm';
+import { MfaChallenge } from '@/components/auth/MfaChallenge';
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons';
+
+export default function SignUpPage() {
+  const { user, loading, mfaResolver } = useAuth();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && user) {
+      router.push(user.emailVerified ? '/dashboard' : '/verify-email');
+    }
+  }, [user, loading, router]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (user) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-lg">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Create an Account</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Sign up with your email or a social account
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <EmailPasswordForm
+          mode="sign-up"
+          onSuccess={() => router.push('/verify-email')}
+          onError={(message) => setError(message)}
+        />
+
+        <div className="flex items-center gap-3 text-sm text-gray-500">
+          <div className="flex-1 border-t border-gray-200" />
+          or
+          <div className="flex-1 border-t border-gray-200" />
+        </div>
+
+        {mfaResolver ? (
+          <MfaChallenge
+            onSuccess={() => router.push('/dashboard')}
+            onError={(message) => setError(message)}
+          />
+        ) : (
+          <SocialLoginButtons
+            onSuccess={() => router.push('/dashboard')}
+            onError={(message) => setError(message)}
+          />
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          Already have an account?{' '}
+          <Link href="/login" className="text-blue-600 hover:underline">
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
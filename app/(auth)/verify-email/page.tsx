@@ -0,0 +1,102 @@
+// app/(auth)/verify-email/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+export default function VerifyEmailPage() {
+  const { user, loading, sendVerificationEmail, checkEmailVerified } = useAuth();
+  const router = useRouter();
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    } else if (user?.emailVerified) {
+      router.push('/dashboard');
+    }
+  }, [user, loading, router]);
+
+  const handleResend = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await sendVerificationEmail();
+      setMessage('Verification email sent.');
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleContinue = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (await checkEmailVerified()) {
+        router.push('/dashboard');
+      } else {
+        setMessage('Your email is not verified yet. Check your inbox for the link.');
+      }
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-lg">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Verify Your Email</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            We sent a verification link to {user.email}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm text-blue-700">{message}</p>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-3">
+          <button
+            onClick={handleContinue}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            I&apos;ve verified my email
+          </button>
+          <button
+            onClick={handleResend}
+            disabled={busy}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Resend verification email
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+// app/(protected)/activity/page.tsx
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser } from '@/actions/auth-actions';
+import { AuditEventTable } from '@/components/audit/AuditEventTable';
+import { queryAuditEvents } from '@/lib/audit/log';
+import { loginUrl } from '@/utils/redirects';
+
+export default async function ActivityPage() {
+  const { user } = await getAuthenticatedUser();
+
+  if (!user) {
+    redirect(loginUrl('/activity'));
+  }
+
+  const events = await queryAuditEvents({ uid: user.uid, limit: 50 });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-semibold text-gray-900">Security Activity</h1>
+            <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <p className="text-sm text-gray-600 mb-6">
+            Recent sign-ins and security changes on your account. If something looks unfamiliar,
+            sign out everywhere and change your password.
+          </p>
+          <AuditEventTable events={events} />
+        </div>
+      </main>
+    </div>
+  );
+}
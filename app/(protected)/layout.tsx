@@ -1,7 +1,10 @@
 // app/(protected)/layout.tsx
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { redirect } from 'next/navigation';
-import { verifyIdToken } from '@/lib/firebase/admin';
+import { SignedOutRedirect } from '@/components/auth/SignedOutRedirect';
+import { verifySession } from '@/lib/firebase/sessions';
+import { SESSION_COOKIE_NAME } from '@/lib/firebase/session';
+import { REQUEST_PATH_HEADER, loginUrl } from '@/utils/redirects';
 
 export default async function ProtectedLayout({
   children,
@@ -9,17 +12,23 @@ export default async function ProtectedLayout({
   children: React.ReactNode;
 }) {
   const cookieStore = await cookies();
-  const sessionCookie = cookieStore.get('__session')?.value;
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const returnTo = (await headers()).get(REQUEST_PATH_HEADER);
 
   if (!sessionCookie) {
-    redirect('/login');
+    redirect(loginUrl(returnTo));
   }
 
-  const decodedToken = await verifyIdToken(sessionCookie);
+  const decodedToken = await verifySession(sessionCookie);
 
   if (!decodedToken) {
-    redirect('/login');
+    redirect(loginUrl(returnTo));
   }
 
-  return <>{children}</>;
+  return (
+    <>
+      <SignedOutRedirect />
+      {children}
+    </>
+  );
 }
@@ -0,0 +1,38 @@
+// app/(protected)/profile/page.tsx
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getAuthenticatedProfile } from '@/actions/auth-actions';
+import { ProfileForm } from '@/components/profile/ProfileForm';
+import { loginUrl } from '@/utils/redirects';
+
+export default async function ProfilePage() {
+  const profile = await getAuthenticatedProfile();
+
+  if (!profile) {
+    redirect(loginUrl('/profile'));
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-semibold text-gray-900">Profile</h1>
+            <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <p className="text-sm text-gray-600 mb-6">
+            Signed in as {profile.email || profile.uid}
+          </p>
+          <ProfileForm profile={profile} />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// app/(protected)/sessions/page.tsx
+import Link from 'next/link';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { terminateSessionAction } from '@/actions/session-actions';
+import { ConfirmSubmitButton } from '@/components/admin/ConfirmSubmitButton';
+import { SESSION_COOKIE_NAME } from '@/lib/firebase/session';
+import { listActiveSessions, sessionIdFor, verifySession } from '@/lib/firebase/sessions';
+import { loginUrl } from '@/utils/redirects';
+
+export default async function SessionsPage() {
+  const sessionCookie = (await cookies()).get(SESSION_COOKIE_NAME)?.value;
+  const decodedToken = sessionCookie ? await verifySession(sessionCookie) : null;
+
+  if (!sessionCookie || !decodedToken) {
+    redirect(loginUrl('/sessions'));
+  }
+
+  const currentSessionId = sessionIdFor(sessionCookie);
+  const sessions = await listActiveSessions(decodedToken.uid);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-semibold text-gray-900">Active Sessions</h1>
+            <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <p className="text-sm text-gray-600 mb-6">
+            Devices currently signed in to your account. Signing out a session ends it on that
+            device only.
+          </p>
+
+          <ul className="divide-y divide-gray-200">
+            {sessions.map((session) => {
+              const isCurrent = session.id === currentSessionId;
+
+              return (
+                <li key={session.id} className="py-4 flex items-start justify-between gap-4">
+                  <div className="text-sm space-y-1">
+                    <p className="font-semibold text-gray-900 break-all">
+                      {session.userAgent || 'Unknown device'}
+                      {isCurrent && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium text-green-800 bg-green-100 rounded">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-gray-600">
+                      IP: {session.ip || 'Unknown'} · Provider: {session.provider || 'Unknown'}
+                    </p>
+                    <p className="text-gray-500">
+                      Signed in {session.createdAt.toUTCString()} · Last active{' '}
+                      {session.lastSeenAt.toUTCString()}
+                    </p>
+                  </div>
+
+                  {!isCurrent && (
+                    <form action={terminateSessionAction}>
+                      <input type="hidden" name="sessionId" value={session.id} />
+                      <ConfirmSubmitButton
+                        message="Sign out this session?"
+                        className="px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100"
+                      >
+                        Sign Out
+                      </ConfirmSubmitButton>
+                    </form>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// app/(protected)/tokens/page.tsx
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser } from '@/actions/auth-actions';
+import { revokeAccessTokenAction } from '@/actions/access-token-actions';
+import { ConfirmSubmitButton } from '@/components/admin/ConfirmSubmitButton';
+import { CreateAccessTokenForm } from '@/components/tokens/CreateAccessTokenForm';
+import { ACCESS_TOKEN_PREFIX } from '@/lib/firebase/access-token';
+import { listAccessTokens } from '@/lib/firebase/access-tokens';
+import { loginUrl } from '@/utils/redirects';
+
+export default async function AccessTokensPage() {
+  const { user } = await getAuthenticatedUser();
+
+  if (!user) {
+    redirect(loginUrl('/tokens'));
+  }
+
+  const tokens = await listAccessTokens(user.uid);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-semibold text-gray-900">Access Tokens</h1>
+            <Link href="/dashboard" className="text-sm text-blue-600 hover:underline">
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <p className="text-sm text-gray-600 mb-6">
+            Personal access tokens let scripts and integrations call the API as you. Send one as{' '}
+            <code className="text-xs">Authorization: Bearer {ACCESS_TOKEN_PREFIX}…</code>; it can
+            only reach routes covered by its scopes.
+          </p>
+          <CreateAccessTokenForm />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Your tokens</h2>
+
+          {tokens.length === 0 ? (
+            <p className="text-sm text-gray-500">No active tokens.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {tokens.map((token) => (
+                <li key={token.id} className="py-4 flex items-start justify-between gap-4">
+                  <div className="text-sm space-y-1">
+                    <p className="font-semibold text-gray-900 break-all">
+                      {token.name}
+                      <span className="ml-2 font-mono text-xs font-normal text-gray-500">
+                        {ACCESS_TOKEN_PREFIX}…{token.hint}
+                      </span>
+                    </p>
+                    <p className="text-gray-600">Scopes: {token.scopes.join(', ')}</p>
+                    <p className="text-gray-500">
+                      Created {token.createdAt.toUTCString()} ·{' '}
+                      {token.expiresAt ? `Expires ${token.expiresAt.toUTCString()}` : 'Never expires'}{' '}
+                      · {token.lastUsedAt ? `Last used ${token.lastUsedAt.toUTCString()}` : 'Never used'}
+                    </p>
+                  </div>
+
+                  <form action={revokeAccessTokenAction}>
+                    <input type="hidden" name="tokenId" value={token.id} />
+                    <ConfirmSubmitButton
+                      message="Revoke this token? Scripts using it will stop working."
+                      className="px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100"
+                    >
+                      Revoke
+                    </ConfirmSubmitButton>
+                  </form>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+// app/api/admin/audit/export/route.ts
+import { auditEventsToCsv, auditFiltersFromParams, queryAuditEvents } from '@/lib/audit/log'
+import { withAuth } from '@/lib/firebase/with-auth'
+
+// Upper bound on rows per export
+const EXPORT_LIMIT = 5000
+
+// Download audit events matching the admin view's filters as CSV
+export const GET = withAuth(
+  async (request) => {
+    const params = Object.fromEntries(request.nextUrl.searchParams)
+    const events = await queryAuditEvents({
+      ...auditFiltersFromParams(params),
+      limit: EXPORT_LIMIT,
+    })
+
+    return new Response(auditEventsToCsv(events), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  },
+  { roles: ['admin'], scope: 'admin:audit', rateLimit: { limit: 10, windowMs: 60 * 1000 } }
+)
@@ -0,0 +1,56 @@
+// app/api/admin/impersonation/route.ts
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { authErrorResponse } from '@/lib/errors/response'
+import { adminAuth } from '@/lib/firebase/admin'
+import { IMPERSONATOR_COOKIE_NAME } from '@/lib/firebase/impersonation'
+import { rolesFromClaims } from '@/lib/firebase/roles'
+import { SESSION_COOKIE_NAME, sessionCookieOptions } from '@/lib/firebase/session'
+import { withAuth } from '@/lib/firebase/with-auth'
+
+// Start impersonating a user (admins only). Returns a custom token carrying an
+// `impersonatedBy` claim for the client to sign in with; the admin's session
+// cookie is set aside until DELETE /api/impersonation restores it.
+export const POST = withAuth(
+  async (request, { user }) => {
+    const body = await request.json().catch(() => null)
+    const uid = typeof body?.uid === 'string' ? body.uid : null
+
+    if (!uid) {
+      return authErrorResponse('invalid-request', request.headers)
+    }
+
+    const target = await adminAuth.getUser(uid).catch(() => null)
+
+    if (!target) {
+      return authErrorResponse('invalid-request', request.headers)
+    }
+
+    // Other admins, guests without an account and disabled users are off limits
+    const isAllowedTarget =
+      target.uid !== user.uid &&
+      !rolesFromClaims(target.customClaims).includes('admin') &&
+      target.providerData.length > 0 &&
+      !target.disabled
+    if (!isAllowedTarget) {
+      return authErrorResponse('forbidden', request.headers)
+    }
+
+    // The admin's cookie is what gets restored, so a bearer ID token will not do
+    const cookieStore = await cookies()
+    const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value
+
+    if (!sessionCookie) {
+      return authErrorResponse('unauthenticated', request.headers)
+    }
+
+    const token = await adminAuth.createCustomToken(uid, { impersonatedBy: user.uid })
+    cookieStore.set(IMPERSONATOR_COOKIE_NAME, sessionCookie, sessionCookieOptions)
+
+    await recordAuditEvent({ type: 'impersonation-started', uid, actorUid: user.uid })
+
+    return NextResponse.json({ token })
+  },
+  { roles: ['admin'], sensitive: true, rateLimit: { limit: 10, windowMs: 60 * 1000 } }
+)
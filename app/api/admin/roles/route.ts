@@ -0,0 +1,31 @@
+// app/api/admin/roles/route.ts
+import { NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { authErrorResponse } from '@/lib/errors/response'
+import { setUserRoles } from '@/lib/firebase/admin'
+import { isRole } from '@/lib/firebase/roles'
+import { withAuth } from '@/lib/firebase/with-auth'
+
+// Assign roles to a user (admins only)
+export const POST = withAuth(
+  async (request, { user }) => {
+    const body = await request.json().catch(() => null)
+    const uid = typeof body?.uid === 'string' ? body.uid : null
+    const roles: unknown = body?.roles
+
+    if (!uid || !Array.isArray(roles) || !roles.every(isRole)) {
+      return authErrorResponse('invalid-request', request.headers)
+    }
+
+    await setUserRoles(uid, roles)
+    await recordAuditEvent({
+      type: 'roles-changed',
+      uid,
+      actorUid: user.uid,
+      details: { roles: roles.join(',') },
+    })
+
+    return NextResponse.json({ uid, roles })
+  },
+  { roles: ['admin'], scope: 'admin:roles', rateLimit: { limit: 30, windowMs: 60 * 1000 } }
+)
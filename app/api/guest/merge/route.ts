@@ -0,0 +1,32 @@
+// app/api/guest/merge/route.ts
+import { NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { authErrorResponse } from '@/lib/errors/response'
+import { verifyIdToken } from '@/lib/firebase/admin'
+import { isGuestToken } from '@/lib/firebase/guest'
+import { mergeGuestAccount } from '@/lib/firebase/guests'
+import { withAuth } from '@/lib/firebase/with-auth'
+
+// Merge the guest proven by `guestIdToken` into the signed-in account. Called
+// when a guest signs in to an account that already exists.
+export const POST = withAuth(
+  async (request, { user }) => {
+    const body = await request.json().catch(() => null)
+    const guestIdToken = typeof body?.guestIdToken === 'string' ? body.guestIdToken : null
+    const guestToken = guestIdToken ? await verifyIdToken(guestIdToken) : null
+
+    if (!guestToken || !isGuestToken(guestToken) || guestToken.uid === user.uid) {
+      return authErrorResponse('invalid-request', request.headers)
+    }
+
+    await mergeGuestAccount(guestToken.uid, user.uid)
+    await recordAuditEvent({
+      type: 'guest-merged',
+      uid: user.uid,
+      details: { guestUid: guestToken.uid },
+    })
+
+    return NextResponse.json({ success: true })
+  },
+  { rateLimit: { limit: 10, windowMs: 60 * 1000 } }
+)
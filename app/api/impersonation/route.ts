@@ -0,0 +1,59 @@
+// app/api/impersonation/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { authErrorResponse } from '@/lib/errors/response'
+import { adminAuth, verifySessionCookie } from '@/lib/firebase/admin'
+import { IMPERSONATOR_COOKIE_NAME, impersonatorFromClaims } from '@/lib/firebase/impersonation'
+import { rolesFromClaims } from '@/lib/firebase/roles'
+import { SESSION_COOKIE_NAME, sessionCookieOptions } from '@/lib/firebase/session'
+import { endSession, verifySession } from '@/lib/firebase/sessions'
+
+// Stop impersonating: end the impersonated session and put the admin's own
+// session cookie back. Returns a custom token for the client to sign in as the
+// admin again, or no token when the admin's session is gone too.
+// Works after the impersonated session has expired, so it is not behind withAuth.
+export async function DELETE(request: NextRequest) {
+  const cookieStore = await cookies()
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value
+  const adminCookie = cookieStore.get(IMPERSONATOR_COOKIE_NAME)?.value
+  // Null once the impersonated session has expired
+  const impersonatedToken = sessionCookie ? await verifySessionCookie(sessionCookie, false) : null
+  const impersonatedBy = impersonatedToken ? impersonatorFromClaims(impersonatedToken) : null
+
+  // Leave the user's own sessions alone
+  if (impersonatedToken ? !impersonatedBy : !adminCookie) {
+    return authErrorResponse('invalid-request', request.headers)
+  }
+
+  cookieStore.delete(IMPERSONATOR_COOKIE_NAME)
+  const uid = sessionCookie ? await endSession(sessionCookie) : null
+  const adminToken = adminCookie ? await verifySession(adminCookie) : null
+  const adminRecord = adminToken ? await adminAuth.getUser(adminToken.uid).catch(() => null) : null
+
+  // Only the admin who started this impersonation gets their session back
+  const canRestore =
+    adminCookie &&
+    adminToken &&
+    adminRecord &&
+    rolesFromClaims(adminRecord.customClaims).includes('admin') &&
+    (!impersonatedBy || impersonatedBy === adminToken.uid)
+
+  if (!canRestore) {
+    cookieStore.delete(SESSION_COOKIE_NAME)
+    await recordAuditEvent({
+      type: 'impersonation-ended',
+      uid,
+      actorUid: impersonatedBy ?? adminToken?.uid ?? null,
+    })
+    return NextResponse.json({ uid: null, token: null })
+  }
+
+  cookieStore.set(SESSION_COOKIE_NAME, adminCookie, sessionCookieOptions)
+  await recordAuditEvent({ type: 'impersonation-ended', uid, actorUid: adminToken.uid })
+
+  return NextResponse.json({
+    uid: adminToken.uid,
+    token: await adminAuth.createCustomToken(adminToken.uid),
+  })
+}
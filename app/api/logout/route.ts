@@ -1,10 +1,62 @@
 // app/api/logout/route.ts
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { authErrorResponse } from '@/lib/errors/response'
+import { adminAuth, verifySessionCookie } from '@/lib/firebase/admin'
+import { IMPERSONATOR_COOKIE_NAME, impersonatorFromClaims } from '@/lib/firebase/impersonation'
+import { SESSION_COOKIE_NAME } from '@/lib/firebase/session'
+import { endSession, terminateAllSessions, verifySession } from '@/lib/firebase/sessions'
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const everywhere = body?.everywhere === true
 
-export async function POST() {
   const cookieStore = await cookies()
-  cookieStore.delete('__session')
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value
+  const adminCookie = cookieStore.get(IMPERSONATOR_COOKIE_NAME)?.value
+
+  // Support staff must not sign the user out of their own devices
+  const decodedToken = everywhere && sessionCookie ? await verifySession(sessionCookie) : null
+  if (decodedToken && impersonatorFromClaims(decodedToken)) {
+    return authErrorResponse('impersonation-restricted', request.headers)
+  }
+
+  cookieStore.delete(SESSION_COOKIE_NAME)
+
+  // Signing out while impersonating ends the admin's set-aside session as well.
+  // It is the admin ending the impersonation, not the user signing out.
+  if (adminCookie) {
+    cookieStore.delete(IMPERSONATOR_COOKIE_NAME)
+    const impersonatedToken = sessionCookie ? await verifySessionCookie(sessionCookie, false) : null
+    const adminUid = await endSession(adminCookie)
+    const uid = sessionCookie ? await endSession(sessionCookie) : null
+    await recordAuditEvent({
+      type: 'impersonation-ended',
+      uid,
+      actorUid: (impersonatedToken && impersonatorFromClaims(impersonatedToken)) ?? adminUid,
+    })
+    return NextResponse.json({ success: true })
+  }
+
+  if (!everywhere) {
+    // Terminating the session record makes copies of this cookie stop working
+    const uid = sessionCookie ? await endSession(sessionCookie) : null
+    if (uid) {
+      await recordAuditEvent({ type: 'sign-out', uid })
+    }
+    return NextResponse.json({ success: true })
+  }
+
+  // Revocation is per user in Firebase: it invalidates every session cookie and
+  // refresh token issued so far, signing the user out on all devices.
+  if (!decodedToken) {
+    return authErrorResponse('unauthenticated', request.headers)
+  }
+
+  await adminAuth.revokeRefreshTokens(decodedToken.uid)
+  await terminateAllSessions(decodedToken.uid)
+  await recordAuditEvent({ type: 'sign-out-everywhere', uid: decodedToken.uid })
 
   return NextResponse.json({ success: true })
 }
@@ -0,0 +1,63 @@
+// app/api/provider-tokens/route.ts
+import { NextResponse } from 'next/server'
+import { authErrorResponse } from '@/lib/errors/response'
+import { adminAuth } from '@/lib/firebase/admin'
+import {
+  deleteProviderToken,
+  listProviderGrants,
+  saveProviderToken,
+} from '@/lib/firebase/provider-tokens'
+import { withAuth } from '@/lib/firebase/with-auth'
+
+const PROVIDER_TOKENS_RATE_LIMIT = { limit: 30, windowMs: 60 * 1000 }
+
+// Providers the user has API access to, without the tokens
+export const GET = withAuth(
+  async (_request, { user }) => {
+    return NextResponse.json({ grants: await listProviderGrants(user.uid) })
+  },
+  { rateLimit: PROVIDER_TOKENS_RATE_LIMIT }
+)
+
+// Keep the OAuth access token from a sign-in or consent popup. Only providers
+// linked to the account are accepted.
+export const POST = withAuth(
+  async (request, { user }) => {
+    const body = await request.json().catch(() => null)
+    const { providerId, accessToken, scopes } = body ?? {}
+
+    const isValid =
+      typeof providerId === 'string' &&
+      typeof accessToken === 'string' &&
+      accessToken.length > 0 &&
+      Array.isArray(scopes) &&
+      scopes.every((scope) => typeof scope === 'string')
+    if (!isValid) {
+      return authErrorResponse('invalid-request', request.headers)
+    }
+
+    const { providerData } = await adminAuth.getUser(user.uid)
+    if (!providerData.some((info) => info.providerId === providerId)) {
+      return authErrorResponse('invalid-request', request.headers)
+    }
+
+    await saveProviderToken(user.uid, { providerId, accessToken, scopes })
+    return NextResponse.json({ success: true })
+  },
+  { sensitive: true, rateLimit: PROVIDER_TOKENS_RATE_LIMIT }
+)
+
+// Forget a provider's token, e.g. after disconnecting it
+export const DELETE = withAuth(
+  async (request, { user }) => {
+    const body = await request.json().catch(() => null)
+
+    if (typeof body?.providerId !== 'string') {
+      return authErrorResponse('invalid-request', request.headers)
+    }
+
+    await deleteProviderToken(user.uid, body.providerId)
+    return NextResponse.json({ success: true })
+  },
+  { sensitive: true, rateLimit: PROVIDER_TOKENS_RATE_LIMIT }
+)
@@ -0,0 +1,182 @@
+// app/api/session/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { recordAuditEvent } from '@/lib/audit/log'
+import { authErrorResponse } from '@/lib/errors/response'
+import {
+  createSessionCookie,
+  recordRejectedCredential,
+  verifyIdToken,
+  verifySessionCookie,
+} from '@/lib/firebase/admin'
+import { isGuestToken } from '@/lib/firebase/guest'
+import {
+  IMPERSONATION_EXPIRES_IN_MS,
+  IMPERSONATOR_COOKIE_NAME,
+  impersonatorFromClaims,
+} from '@/lib/firebase/impersonation'
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_EXPIRES_IN_MS,
+  sessionCookieOptions,
+} from '@/lib/firebase/session'
+import {
+  createSessionRecord,
+  endSession,
+  isSignInTerminated,
+  removeSession,
+  verifySession,
+} from '@/lib/firebase/sessions'
+import { syncProfile } from '@/lib/firebase/profiles'
+import { rateLimitResponse, rateLimiter } from '@/lib/rate-limit/limiter'
+import { getClientIp } from '@/utils/request'
+
+// Sign-ins per client IP; invalid tokens also count towards a lockout
+const SESSION_RATE_LIMIT = { limit: 10, windowMs: 60 * 1000 }
+
+// Report the user behind the current session cookie, if it is still active
+export async function GET(request: NextRequest) {
+  const cookieStore = await cookies()
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value
+  const decodedToken = sessionCookie ? await verifySession(sessionCookie) : null
+
+  if (!decodedToken) {
+    return authErrorResponse('unauthenticated', request.headers)
+  }
+
+  return NextResponse.json({ uid: decodedToken.uid })
+}
+
+// Exchange a fresh ID token for an httpOnly session cookie
+export async function POST(request: NextRequest) {
+  const ip = getClientIp(request.headers)
+  // Without a known client IP every caller would share one key, letting anyone
+  // lock everyone out, so IP limiting is skipped
+  const lockoutKey = ip ? `ip:${ip}` : null
+
+  if (lockoutKey) {
+    const lockedOutFor = await rateLimiter.lockedOutFor(lockoutKey)
+    if (lockedOutFor > 0) {
+      return rateLimitResponse(lockedOutFor, request.headers)
+    }
+
+    const { allowed, retryAfterMs } = await rateLimiter.consume(
+      `POST /api/session:${lockoutKey}`,
+      SESSION_RATE_LIMIT
+    )
+    if (!allowed) {
+      return rateLimitResponse(retryAfterMs, request.headers)
+    }
+  }
+
+  const body = await request.json().catch(() => null)
+  const idToken = typeof body?.idToken === 'string' ? body.idToken : null
+
+  if (!idToken) {
+    return authErrorResponse('invalid-request', request.headers)
+  }
+
+  const decodedToken = await verifyIdToken(idToken)
+
+  if (!decodedToken) {
+    if (lockoutKey) {
+      await rateLimiter.recordFailure(lockoutKey)
+    }
+    await recordRejectedCredential(idToken, 'id-token')
+    return authErrorResponse('unauthenticated', request.headers)
+  }
+
+  if (await isSignInTerminated(decodedToken.uid, decodedToken.auth_time)) {
+    await recordAuditEvent({
+      type: 'sign-in-failed',
+      uid: decodedToken.uid,
+      provider: decodedToken.firebase.sign_in_provider,
+      details: { reason: 'session-ended' },
+    })
+    return authErrorResponse('session-ended', request.headers)
+  }
+
+  const cookieStore = await cookies()
+  const previousCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value
+  // An admin starting to impersonate; their own cookie is kept for later
+  const impersonatedBy = impersonatorFromClaims(decodedToken)
+  const expiresIn = impersonatedBy ? IMPERSONATION_EXPIRES_IN_MS : SESSION_EXPIRES_IN_MS
+  // Re-minting for fresh claims keeps the auth_time of the original sign-in
+  const previousToken = previousCookie ? await verifySessionCookie(previousCookie, false) : null
+  const isNewSignIn = previousToken?.auth_time !== decodedToken.auth_time
+  // Linking a provider keeps the guest's uid
+  const isGuestUpgrade =
+    previousToken?.uid === decodedToken.uid &&
+    isGuestToken(previousToken) &&
+    !isGuestToken(decodedToken)
+
+  try {
+    const sessionCookie = await createSessionCookie(idToken, expiresIn)
+    await createSessionRecord(sessionCookie, {
+      uid: decodedToken.uid,
+      authTime: decodedToken.auth_time,
+      userAgent: request.headers.get('user-agent'),
+      ip,
+      provider: decodedToken.firebase.sign_in_provider ?? null,
+      expiresIn,
+    })
+    cookieStore.set(SESSION_COOKIE_NAME, sessionCookie, {
+      ...sessionCookieOptions,
+      maxAge: expiresIn / 1000,
+    })
+  } catch (error) {
+    console.error('Session cookie creation failed:', error)
+    return authErrorResponse('unauthenticated', request.headers)
+  }
+
+  // The new cookie replaces any previous session from this browser, except the
+  // admin session set aside while impersonating
+  if (previousCookie && previousCookie !== cookieStore.get(IMPERSONATOR_COOKIE_NAME)?.value) {
+    await removeSession(previousCookie)
+  }
+
+  // Impersonation is audited on its own and leaves the user's profile untouched
+  if (impersonatedBy) {
+    return NextResponse.json({ success: true })
+  }
+
+  if (isNewSignIn) {
+    await recordAuditEvent({
+      type: 'sign-in',
+      uid: decodedToken.uid,
+      provider: decodedToken.firebase.sign_in_provider,
+      details: { secondFactor: decodedToken.firebase.sign_in_second_factor ?? null },
+    })
+  }
+
+  if (isGuestUpgrade) {
+    await recordAuditEvent({
+      type: 'guest-upgraded',
+      uid: decodedToken.uid,
+      provider: decodedToken.firebase.sign_in_provider,
+    })
+  }
+
+  // A profile problem should not block sign-in
+  try {
+    await syncProfile(decodedToken.uid)
+  } catch (error) {
+    console.error('Profile sync failed:', error)
+  }
+
+  return NextResponse.json({ success: true })
+}
+
+// Clear the session cookie and end its session record
+export async function DELETE() {
+  const cookieStore = await cookies()
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value
+  cookieStore.delete(SESSION_COOKIE_NAME)
+
+  const uid = sessionCookie ? await endSession(sessionCookie) : null
+  if (uid) {
+    await recordAuditEvent({ type: 'sign-out', uid })
+  }
+
+  return NextResponse.json({ success: true })
+}
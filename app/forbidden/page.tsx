@@ -0,0 +1,18 @@
+// app/forbidden/page.tsx
+import Link from 'next/link';
+
+export default function ForbiddenPage() {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-lg text-center">
+        <h1 className="text-3xl font-bold text-gray-900">Access Denied</h1>
+        <p className="text-sm text-gray-600">
+          Your account doesn&apos;t have permission to view this page.
+        </p>
+        <Link href="/dashboard" className="inline-block text-blue-600 hover:underline">
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
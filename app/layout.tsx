@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/context/AuthContext";
+import { ImpersonationBanner } from "@/components/auth/ImpersonationBanner";
+import { getCurrentUser } from "@/lib/firebase/guards";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -18,17 +20,23 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Lets pages render the signed-in user before Firebase initializes
+  const initialUser = await getCurrentUser();
+
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <AuthProvider>{children}</AuthProvider>
+        <AuthProvider initialUser={initialUser}>
+          <ImpersonationBanner />
+          {children}
+        </AuthProvider>
       </body>
     </html>
   );
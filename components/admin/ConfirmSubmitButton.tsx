@@ -0,0 +1,25 @@
+// components/admin/ConfirmSubmitButton.tsx
+'use client';
+
+interface ConfirmSubmitButtonProps {
+  message: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Submit button that asks for confirmation before a destructive server action
+export function ConfirmSubmitButton({ message, className, children }: ConfirmSubmitButtonProps) {
+  return (
+    <button
+      type="submit"
+      className={className}
+      onClick={(event) => {
+        if (!window.confirm(message)) {
+          event.preventDefault();
+        }
+      }}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,49 @@
+// components/admin/ImpersonateButton.tsx
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+interface ImpersonateButtonProps {
+  uid: string;
+  label: string;
+}
+
+// Sign in as the user to see what they see; the banner brings the admin back
+export function ImpersonateButton({ uid, label }: ImpersonateButtonProps) {
+  const { impersonate } = useAuth();
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    if (!window.confirm(`Sign in as ${label}? This is recorded in the audit log.`)) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await impersonate(uid);
+      router.push('/dashboard');
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleClick}
+        disabled={loading}
+        className="px-4 py-2 border border-amber-500 text-amber-700 rounded-lg hover:bg-amber-50 disabled:opacity-50"
+      >
+        {loading ? 'Signing in...' : 'Impersonate'}
+      </button>
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+    </>
+  );
+}
@@ -0,0 +1,62 @@
+// components/audit/AuditEventTable.tsx
+import Link from 'next/link';
+import { AUDIT_EVENT_LABELS, type AuditEvent } from '@/lib/audit/events';
+
+interface AuditEventTableProps {
+  events: AuditEvent[];
+  // Admin view: show who the event is about and link to the user
+  showUser?: boolean;
+}
+
+export function AuditEventTable({ events, showUser = false }: AuditEventTableProps) {
+  return (
+    <table className="w-full text-left text-sm">
+      <thead className="border-b border-gray-200 text-gray-600">
+        <tr>
+          <th className="py-2">Time (UTC)</th>
+          <th className="py-2">Event</th>
+          {showUser && <th className="py-2">User</th>}
+          <th className="py-2">IP</th>
+          <th className="py-2">Provider</th>
+          <th className="py-2">Device</th>
+        </tr>
+      </thead>
+      <tbody>
+        {events.map((event) => (
+          <tr key={event.id} className="border-b border-gray-100 align-top">
+            <td className="py-3 text-gray-700 whitespace-nowrap">
+              {event.createdAt.toISOString().replace('T', ' ').slice(0, 19)}
+            </td>
+            <td className="py-3 text-gray-900">
+              {AUDIT_EVENT_LABELS[event.type] ?? event.type}
+              {event.actorUid && event.actorUid !== event.uid && (
+                <p className="text-gray-500">by {event.actorUid}</p>
+              )}
+            </td>
+            {showUser && (
+              <td className="py-3 font-mono text-xs break-all">
+                {event.uid ? (
+                  <Link href={`/admin/users/${event.uid}`} className="text-blue-600 hover:underline">
+                    {event.uid}
+                  </Link>
+                ) : (
+                  '—'
+                )}
+              </td>
+            )}
+            <td className="py-3 text-gray-700">{event.ip || '—'}</td>
+            <td className="py-3 text-gray-700">{event.provider || '—'}</td>
+            <td className="py-3 text-gray-500 break-all">{event.userAgent || '—'}</td>
+          </tr>
+        ))}
+        {events.length === 0 && (
+          <tr>
+            <td colSpan={showUser ? 6 : 5} className="py-6 text-center text-gray-500">
+              No activity found
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
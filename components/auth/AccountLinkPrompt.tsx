@@ -0,0 +1,105 @@
+// components/auth/AccountLinkPrompt.tsx
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { getEnabledProviders, getProviderLabel, providerNameFromId } from '@/lib/firebase/providers';
+import { AuthError } from '@/lib/errors/auth-error';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+import type { AuthProvider } from '@/types/auth';
+
+interface AccountLinkPromptProps {
+  onSuccess?: () => void;
+  onError?: (message: string) => void;
+}
+
+export function AccountLinkPrompt({ onSuccess, onError }: AccountLinkPromptProps) {
+  const { pendingLink, completePendingLink, cancelPendingLink } = useAuth();
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState<string | null>(null);
+
+  if (!pendingLink) {
+    return null;
+  }
+
+  // Without enumeration data, offer every method except the one that collided
+  const knownMethods = pendingLink.signInMethods.length > 0;
+  const existingProviders = knownMethods
+    ? pendingLink.signInMethods
+        .map(providerNameFromId)
+        .filter((name): name is AuthProvider => name !== null)
+    : getEnabledProviders()
+        .map((provider) => provider.id)
+        .filter((name) => name !== pendingLink.providerName);
+  const allowsPassword = !knownMethods || pendingLink.signInMethods.includes('password');
+
+  const handleLink = async (method: AuthProvider | 'password') => {
+    setLoading(method);
+    try {
+      await completePendingLink(method, password);
+      onSuccess?.();
+    } catch (error) {
+      const { code } = AuthError.from(error);
+      if (code === 'auth/popup-closed-by-user') {
+        return;
+      }
+      onError?.(getAuthErrorMessage(error));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handlePasswordSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    handleLink('password');
+  };
+
+  return (
+    <div className="p-4 space-y-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+      <p className="text-sm text-yellow-800">
+        An account already exists for <strong>{pendingLink.email}</strong>. Sign in with
+        your existing method to link your {getProviderLabel(pendingLink.providerName)} account.
+      </p>
+
+      {existingProviders.map((name) => (
+        <button
+          key={name}
+          onClick={() => handleLink(name)}
+          disabled={loading !== null}
+          className="w-full px-4 py-2 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading === name ? 'Linking...' : `Continue with ${getProviderLabel(name)}`}
+        </button>
+      ))}
+
+      {allowsPassword && (
+        <form onSubmit={handlePasswordSubmit} className="flex gap-2">
+          <input
+            type="password"
+            placeholder="Password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+          <button
+            type="submit"
+            disabled={loading !== null}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading === 'password' ? 'Linking...' : 'Link'}
+          </button>
+        </form>
+      )}
+
+      <button
+        onClick={cancelPendingLink}
+        disabled={loading !== null}
+        className="w-full text-sm text-gray-600 hover:underline"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
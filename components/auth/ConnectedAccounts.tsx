@@ -0,0 +1,154 @@
+// components/auth/ConnectedAccounts.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import {
+  getEnabledProviders,
+  getProviderLabel,
+  providerNameFromId,
+  type ProviderConfig,
+} from '@/lib/firebase/providers';
+import {
+  grantFromJson,
+  isGrantExpired,
+  missingScopes,
+  type ProviderGrant,
+} from '@/lib/firebase/provider-token';
+import { AuthError } from '@/lib/errors/auth-error';
+import { apiFetch } from '@/utils/apiFetch';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+import type { AuthProvider } from '@/types/auth';
+
+// Twitter and SAML sign-ins leave no usable API token
+const hasApiAccess = ({ kind }: ProviderConfig) => kind !== 'twitter' && kind !== 'saml';
+
+export function ConnectedAccounts() {
+  const { user, linkProvider, unlinkProvider, authorizeProvider } = useAuth();
+  const [loading, setLoading] = useState<AuthProvider | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Firebase mutates providerData in place, so track it locally to re-render
+  const [linked, setLinked] = useState<AuthProvider[]>(() => linkedProviders());
+  const [grants, setGrants] = useState<ProviderGrant[]>([]);
+
+  function linkedProviders(): AuthProvider[] {
+    return (user?.providerData ?? [])
+      .map((info) => providerNameFromId(info.providerId))
+      .filter((name): name is AuthProvider => name !== null);
+  }
+
+  const loadGrants = useCallback(async () => {
+    const response = await apiFetch('/api/provider-tokens');
+    if (response.ok) {
+      const { grants } = await response.json();
+      setGrants(grants.map(grantFromJson));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGrants().catch(console.error);
+  }, [loadGrants]);
+
+  const canUnlink = (user?.providerData.length ?? 0) > 1;
+
+  const run = async (providerName: AuthProvider, action: () => Promise<void>) => {
+    setLoading(providerName);
+    setError(null);
+    try {
+      await action();
+      setLinked(linkedProviders());
+      await loadGrants();
+    } catch (error) {
+      const { code } = AuthError.from(error);
+      if (code === 'auth/popup-closed-by-user') {
+        return;
+      }
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleToggle = (providerName: AuthProvider) =>
+    run(providerName, () =>
+      linked.includes(providerName) ? unlinkProvider(providerName) : linkProvider(providerName)
+    );
+
+  const handleAuthorize = (providerName: AuthProvider, scopes: string[] = []) =>
+    run(providerName, () => authorizeProvider(providerName, scopes));
+
+  return (
+    <div className="mt-8 p-6 bg-gray-50 rounded-lg">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Connected Accounts</h3>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {getEnabledProviders().map((config) => {
+          const { id: providerName } = config;
+          const isLinked = linked.includes(providerName);
+          const grant = grants.find((entry) => entry.providerId === config.providerId) ?? null;
+          const needsConsent = !grant || isGrantExpired(grant);
+          const grantableScopes = grant ? missingScopes(grant, config.optionalScopes ?? []) : [];
+          const accessLabel = !grant
+            ? 'not granted'
+            : needsConsent
+              ? 'expired'
+              : grant.scopes.join(', ') || 'granted';
+
+          return (
+            <li key={providerName}>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">
+                  {getProviderLabel(providerName)}{' '}
+                  <span className={isLinked ? 'text-green-700' : 'text-gray-500'}>
+                    {isLinked ? '(connected)' : '(not connected)'}
+                  </span>
+                </span>
+                <button
+                  onClick={() => handleToggle(providerName)}
+                  disabled={loading !== null || (isLinked && !canUnlink)}
+                  className="px-3 py-1 text-sm border border-gray-300 bg-white rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading === providerName ? 'Working...' : isLinked ? 'Disconnect' : 'Connect'}
+                </button>
+              </div>
+
+              {isLinked && hasApiAccess(config) && (
+                <div className="mt-1 ml-4 text-sm text-gray-600 space-y-1">
+                  <p>
+                    API access: {accessLabel}
+                    {needsConsent && (
+                      <button
+                        onClick={() => handleAuthorize(providerName)}
+                        disabled={loading !== null}
+                        className="ml-2 text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        Allow access
+                      </button>
+                    )}
+                  </p>
+                  {!needsConsent &&
+                    grantableScopes.map((scope) => (
+                      <button
+                        key={scope}
+                        onClick={() => handleAuthorize(providerName, [scope])}
+                        disabled={loading !== null}
+                        className="block text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        Also allow {scope}
+                      </button>
+                    ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// components/auth/EmailPasswordForm.tsx
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { AuthError } from '@/lib/errors/auth-error';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+interface EmailPasswordFormProps {
+  mode: 'sign-in' | 'sign-up';
+  onSuccess?: () => void;
+  onError?: (message: string) => void;
+}
+
+export function EmailPasswordForm({ mode, onSuccess, onError }: EmailPasswordFormProps) {
+  const { signInWithEmail, signUpWithEmail } = useAuth();
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setLoading(true);
+    try {
+      if (mode === 'sign-up') {
+        await signUpWithEmail(email, password, displayName || undefined);
+      } else {
+        await signInWithEmail(email, password);
+      }
+      onSuccess?.();
+    } catch (error) {
+      const { code } = AuthError.from(error);
+      if (code === 'auth/multi-factor-auth-required') {
+        // MfaChallenge takes over on the page
+        return;
+      }
+      onError?.(getAuthErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      {mode === 'sign-up' && (
+        <input
+          type="text"
+          placeholder="Name"
+          autoComplete="name"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600"
+        />
+      )}
+      <input
+        type="email"
+        placeholder="Email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600"
+      />
+      <input
+        type="password"
+        placeholder="Password"
+        autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+        required
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600"
+      />
+      <button
+        type="submit"
+        disabled={loading}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {loading
+          ? mode === 'sign-up' ? 'Creating account...' : 'Signing in...'
+          : mode === 'sign-up' ? 'Create account' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
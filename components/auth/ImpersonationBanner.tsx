@@ -0,0 +1,53 @@
+// components/auth/ImpersonationBanner.tsx
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+// Shown on every page while an admin is signed in as another user
+export function ImpersonationBanner() {
+  const { currentUser, stopImpersonating } = useAuth();
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!currentUser?.impersonatedBy) {
+    return null;
+  }
+
+  const { uid, email, displayName } = currentUser;
+
+  const handleStop = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await stopImpersonating();
+      router.push(`/admin/users/${uid}`);
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-50 bg-amber-500 text-amber-950">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between gap-4 text-sm">
+        <p>
+          You are impersonating <strong>{displayName || email || uid}</strong>
+          {email && displayName && ` (${email})`}. Account security changes are disabled.
+          {error && <span className="ml-2 font-semibold">{error}</span>}
+        </p>
+        <button
+          onClick={handleStop}
+          disabled={loading}
+          className="shrink-0 px-3 py-1 bg-amber-950 text-white rounded hover:bg-amber-900 disabled:opacity-50"
+        >
+          {loading ? 'Stopping...' : 'Stop impersonating'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+// components/auth/LoginForm.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { EmailPasswordForm } from '@/components/auth/EmailPasswordForm';
+import { MfaChallenge } from '@/components/auth/MfaChallenge';
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+// Shown right away; a user Firebase finds signed in is sent on once it initializes
+export function LoginForm({ returnTo }: { returnTo: string }) {
+  const { user, currentUser, loading, isGuest, mfaResolver, ensureSession, signInAsGuest } =
+    useAuth();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  // Guests stay here to sign in; that upgrades their account
+  useEffect(() => {
+    if (!loading && user && !isGuest) {
+      // The cookie may have expired while the client is still signed in
+      ensureSession()
+        .then(() => router.push(returnTo))
+        .catch((error) => setError(getAuthErrorMessage(error)));
+    }
+  }, [user, loading, isGuest, router, returnTo, ensureSession]);
+
+  const handleGuestSignIn = () => {
+    signInAsGuest()
+      .then(() => router.push('/dashboard'))
+      .catch((error) => setError(getAuthErrorMessage(error)));
+  };
+
+  if (user && !isGuest) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-lg">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Welcome Back</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Sign in to your account to continue
+          </p>
+        </div>
+
+        {isGuest && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <p className="text-sm text-yellow-800">
+              You&apos;re browsing as a guest. Sign in to keep your data.
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {mfaResolver ? (
+          <MfaChallenge
+            onSuccess={() => router.push(returnTo)}
+            onError={(message) => setError(message)}
+          />
+        ) : (
+          <>
+            <EmailPasswordForm
+              mode="sign-in"
+              onSuccess={() => router.push(returnTo)}
+              onError={(message) => setError(message)}
+            />
+
+            <div className="flex justify-between text-sm">
+              <Link href="/forgot-password" className="text-blue-600 hover:underline">
+                Forgot password?
+              </Link>
+              <Link href="/login/email-link" className="text-blue-600 hover:underline">
+                Email me a sign-in link
+              </Link>
+            </div>
+
+            <div className="flex items-center gap-3 text-sm text-gray-500">
+              <div className="flex-1 border-t border-gray-200" />
+              or
+              <div className="flex-1 border-t border-gray-200" />
+            </div>
+
+            <SocialLoginButtons
+              returnTo={returnTo}
+              onSuccess={() => router.push(returnTo)}
+              onError={(message) => setError(message)}
+            />
+
+            {!currentUser && (
+              <button
+                onClick={handleGuestSignIn}
+                className="w-full text-sm text-gray-600 hover:underline"
+              >
+                Continue as guest
+              </button>
+            )}
+
+            <p className="text-center text-sm text-gray-600">
+              Don&apos;t have an account?{' '}
+              <Link href="/signup" className="text-blue-600 hover:underline">
+                Sign up
+              </Link>
+            </p>
+          </>
+        )}
+
+        <div className="text-center text-sm text-gray-600">
+          <p>By signing in, you agree to our Terms of Service and Privacy Policy</p>
+        </div>
+      </div>
+    </div>
+  );
+}
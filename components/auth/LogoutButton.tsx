@@ -5,7 +5,12 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
 
-export function LogoutButton() {
+interface LogoutButtonProps {
+  // Also end sessions on every other device
+  everywhere?: boolean;
+}
+
+export function LogoutButton({ everywhere = false }: LogoutButtonProps) {
   const { signOut } = useAuth();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
@@ -13,9 +18,8 @@ export function LogoutButton() {
   const handleLogout = async () => {
     setLoading(true);
     try {
-      await signOut();
-      // Clear any server-side session
-      await fetch('/api/logout', { method: 'POST' });
+      // Clears (and optionally revokes) the server-side session too
+      await signOut({ everywhere });
       router.push('/login');
     } catch (error) {
       console.error('Logout error:', error);
@@ -24,6 +28,18 @@ export function LogoutButton() {
     }
   };
 
+  if (everywhere) {
+    return (
+      <button
+        onClick={handleLogout}
+        disabled={loading}
+        className="px-4 py-2 border border-red-600 text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+      >
+        {loading ? 'Signing out...' : 'Sign Out Everywhere'}
+      </button>
+    );
+  }
+
   return (
     <button
       onClick={handleLogout}
@@ -0,0 +1,137 @@
+// components/auth/MfaChallenge.tsx
+'use client';
+
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import type { MultiFactorInfo, RecaptchaVerifier } from 'firebase/auth';
+import { useAuth } from '@/context/AuthContext';
+import {
+  createRecaptchaVerifier,
+  isPhoneFactor,
+  resolveWithSms,
+  resolveWithTotp,
+  sendSmsSignInCode,
+} from '@/lib/firebase/mfa';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+interface MfaChallengeProps {
+  onSuccess?: () => void;
+  onError?: (message: string) => void;
+}
+
+const RECAPTCHA_CONTAINER_ID = 'mfa-challenge-recaptcha';
+
+export function MfaChallenge({ onSuccess, onError }: MfaChallengeProps) {
+  const { mfaResolver, finishMfaSignIn, cancelMfaSignIn } = useAuth();
+  const [hint, setHint] = useState<MultiFactorInfo | null>(null);
+  const [verificationId, setVerificationId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const verifierRef = useRef<RecaptchaVerifier | null>(null);
+
+  useEffect(() => () => verifierRef.current?.clear(), []);
+
+  if (!mfaResolver) {
+    return null;
+  }
+
+  const handleError = (error: unknown) => {
+    onError?.(getAuthErrorMessage(error));
+  };
+
+  const handleSelect = async (selected: MultiFactorInfo) => {
+    setHint(selected);
+    setCode('');
+
+    if (!isPhoneFactor(selected)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      verifierRef.current ??= createRecaptchaVerifier(RECAPTCHA_CONTAINER_ID);
+      setVerificationId(await sendSmsSignInCode(mfaResolver, selected, verifierRef.current));
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!hint) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const credential =
+        isPhoneFactor(hint) && verificationId
+          ? await resolveWithSms(mfaResolver, verificationId, code)
+          : await resolveWithTotp(mfaResolver, hint, code);
+      await finishMfaSignIn(credential);
+      onSuccess?.();
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <h2 className="text-xl font-semibold text-gray-900">Two-Step Verification</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          {hint ? 'Enter the 6-digit code' : "Choose how to verify it's you"}
+        </p>
+      </div>
+
+      {!hint &&
+        mfaResolver.hints.map((factor) => (
+          <button
+            key={factor.uid}
+            onClick={() => handleSelect(factor)}
+            disabled={loading}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPhoneFactor(factor)
+              ? `Text a code to ${factor.phoneNumber}`
+              : `Use authenticator app${factor.displayName ? ` (${factor.displayName})` : ''}`}
+          </button>
+        ))}
+
+      {hint && (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+          <button
+            type="submit"
+            disabled={loading || (isPhoneFactor(hint) && !verificationId)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+      )}
+
+      <div id={RECAPTCHA_CONTAINER_ID} />
+
+      <button
+        onClick={cancelMfaSignIn}
+        disabled={loading}
+        className="w-full text-sm text-gray-600 hover:underline"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
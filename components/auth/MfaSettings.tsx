@@ -0,0 +1,203 @@
+// components/auth/MfaSettings.tsx
+'use client';
+
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import type { MultiFactorInfo, RecaptchaVerifier, TotpSecret } from 'firebase/auth';
+import { useAuth } from '@/context/AuthContext';
+import {
+  createRecaptchaVerifier,
+  finishSmsEnrollment,
+  finishTotpEnrollment,
+  getEnrolledFactors,
+  isPhoneFactor,
+  startSmsEnrollment,
+  startTotpEnrollment,
+  unenrollFactor,
+} from '@/lib/firebase/mfa';
+import { getAuthErrorMessage } from '@/utils/errorMessages';
+
+type Enrollment =
+  | { type: 'totp'; secret: TotpSecret; qrCodeUrl: string }
+  | { type: 'sms'; verificationId: string | null };
+
+const RECAPTCHA_CONTAINER_ID = 'mfa-enroll-recaptcha';
+
+export function MfaSettings() {
+  const { user } = useAuth();
+  // Firebase mutates enrolledFactors in place, so track it locally to re-render
+  const [factors, setFactors] = useState<MultiFactorInfo[]>(() =>
+    user ? [...getEnrolledFactors(user)] : []
+  );
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const verifierRef = useRef<RecaptchaVerifier | null>(null);
+
+  useEffect(() => () => verifierRef.current?.clear(), []);
+
+  if (!user) {
+    return null;
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetEnrollment = () => {
+    setEnrollment(null);
+    setPhoneNumber('');
+    setCode('');
+    setFactors([...getEnrolledFactors(user)]);
+  };
+
+  const handleStartTotp = () =>
+    run(async () => {
+      setEnrollment({ type: 'totp', ...(await startTotpEnrollment(user)) });
+    });
+
+  const handleSendSms = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(async () => {
+      verifierRef.current ??= createRecaptchaVerifier(RECAPTCHA_CONTAINER_ID);
+      const verificationId = await startSmsEnrollment(user, phoneNumber, verifierRef.current);
+      setEnrollment({ type: 'sms', verificationId });
+    });
+  };
+
+  const handleConfirm = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(async () => {
+      if (enrollment?.type === 'totp') {
+        await finishTotpEnrollment(user, enrollment.secret, code, 'Authenticator app');
+      } else if (enrollment?.type === 'sms' && enrollment.verificationId) {
+        await finishSmsEnrollment(user, enrollment.verificationId, code, phoneNumber);
+      }
+      resetEnrollment();
+    });
+  };
+
+  const handleRemove = (factor: MultiFactorInfo) =>
+    run(async () => {
+      await unenrollFactor(user, factor.uid);
+      setFactors([...getEnrolledFactors(user)]);
+    });
+
+  return (
+    <div className="mt-8 p-6 bg-gray-50 rounded-lg">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Two-Step Verification</h3>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <ul className="space-y-3 mb-4">
+        {factors.map((factor) => (
+          <li key={factor.uid} className="flex items-center justify-between">
+            <span className="text-gray-700">
+              {isPhoneFactor(factor) ? `SMS to ${factor.phoneNumber}` : factor.displayName || 'Authenticator app'}
+              <span className="text-gray-500"> (added {factor.enrollmentTime})</span>
+            </span>
+            <button
+              onClick={() => handleRemove(factor)}
+              disabled={loading}
+              className="px-3 py-1 text-sm border border-gray-300 bg-white rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+        {factors.length === 0 && <li className="text-gray-500">No second factors enrolled</li>}
+      </ul>
+
+      {!enrollment && (
+        <div className="space-y-3">
+          <button
+            onClick={handleStartTotp}
+            disabled={loading}
+            className="px-3 py-1 text-sm border border-gray-300 bg-white rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add authenticator app
+          </button>
+          <form onSubmit={handleSendSms} className="flex gap-2">
+            <input
+              type="tel"
+              placeholder="+1 555 555 0100"
+              required
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-3 py-1 text-sm border border-gray-300 bg-white rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add SMS
+            </button>
+          </form>
+        </div>
+      )}
+
+      {enrollment && (
+        <form onSubmit={handleConfirm} className="space-y-3">
+          {enrollment.type === 'totp' && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                Scan this QR code with your authenticator app, or enter the key manually.
+              </p>
+              <QRCodeSVG value={enrollment.qrCodeUrl} size={160} />
+              <p className="font-mono text-sm text-gray-700 break-all">
+                {enrollment.secret.secretKey}
+              </p>
+            </div>
+          )}
+          {enrollment.type === 'sms' && (
+            <p className="text-sm text-gray-700">Enter the code we texted to {phoneNumber}.</p>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Verify
+            </button>
+            <button
+              type="button"
+              onClick={resetEnrollment}
+              disabled={loading}
+              className="px-3 py-1 text-sm text-gray-600 hover:underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div id={RECAPTCHA_CONTAINER_ID} />
+    </div>
+  );
+}
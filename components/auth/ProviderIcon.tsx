@@ -0,0 +1,35 @@
+// components/auth/ProviderIcon.tsx
+import type { ProviderIcon as ProviderIconName } from '@/lib/firebase/providers';
+
+// Brand initial and colour per icon; Microsoft gets its four squares
+const BADGES: Record<Exclude<ProviderIconName, 'microsoft'>, { text: string; className: string }> = {
+  google: { text: 'G', className: 'bg-white text-blue-600 border border-gray-300' },
+  github: { text: 'GH', className: 'bg-white text-gray-900' },
+  x: { text: 'X', className: 'bg-white text-black' },
+  apple: { text: 'A', className: 'bg-white text-black' },
+  yahoo: { text: 'Y!', className: 'bg-purple-700 text-white' },
+  sso: { text: 'SSO', className: 'bg-gray-700 text-white' },
+};
+
+export function ProviderIcon({ icon }: { icon: ProviderIconName }) {
+  if (icon === 'microsoft') {
+    return (
+      <svg viewBox="0 0 20 20" className="w-5 h-5" aria-hidden="true">
+        <rect x="0" y="0" width="9" height="9" fill="#f25022" />
+        <rect x="11" y="0" width="9" height="9" fill="#7fba00" />
+        <rect x="0" y="11" width="9" height="9" fill="#00a4ef" />
+        <rect x="11" y="11" width="9" height="9" fill="#ffb900" />
+      </svg>
+    );
+  }
+
+  const badge = BADGES[icon];
+  return (
+    <span
+      aria-hidden="true"
+      className={`inline-flex items-center justify-center min-w-5 h-5 px-0.5 rounded text-[10px] font-bold ${badge.className}`}
+    >
+      {badge.text}
+    </span>
+  );
+}
@@ -0,0 +1,27 @@
+// components/auth/SignedOutRedirect.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { loginUrl } from '@/utils/redirects';
+
+// Leave a protected page as soon as the user signs out, including from another
+// tab, or when Firebase turns out to be signed out of the server-rendered user
+export function SignedOutRedirect() {
+  const { currentUser } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const wasSignedIn = useRef(false);
+
+  useEffect(() => {
+    if (currentUser) {
+      wasSignedIn.current = true;
+    } else if (wasSignedIn.current) {
+      wasSignedIn.current = false;
+      router.replace(loginUrl(pathname));
+    }
+  }, [currentUser, router, pathname]);
+
+  return null;
+}
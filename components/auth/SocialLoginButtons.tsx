@@ -3,62 +3,70 @@
 
 import { useState } from 'react';
 import { useAuth } from '@/context/AuthContext';
+import { getEnabledProviders } from '@/lib/firebase/providers';
+import { AuthError } from '@/lib/errors/auth-error';
 import { getAuthErrorMessage } from '@/utils/errorMessages';
+import { AccountLinkPrompt } from './AccountLinkPrompt';
+import { ProviderIcon } from './ProviderIcon';
 
 interface SocialLoginButtonsProps {
+  // Where to land if the popup falls back to a full-page redirect
+  returnTo?: string;
   onSuccess?: () => void;
   onError?: (message: string) => void;
 }
 
-export function SocialLoginButtons({ onSuccess, onError }: SocialLoginButtonsProps) {
-  const { signInWithGoogle, signInWithGitHub, signInWithTwitter } = useAuth();
+export function SocialLoginButtons({ returnTo, onSuccess, onError }: SocialLoginButtonsProps) {
+  const { signIn, pendingLink } = useAuth();
   const [loading, setLoading] = useState<string | null>(null);
 
-  const handleSignIn = async (
-    provider: 'google' | 'github' | 'twitter',
-    signInFn: () => Promise<void>
-  ) => {
-    setLoading(provider);
+  const handleSignIn = async (providerName: string) => {
+    setLoading(providerName);
     try {
-      await signInFn();
+      await signIn(providerName, returnTo);
       onSuccess?.();
-    } catch (error: any) {
-      if (error.code === 'auth/popup-closed-by-user') {
+    } catch (error) {
+      const { code } = AuthError.from(error);
+      if (code === 'auth/popup-closed-by-user') {
         // User cancelled - don't show error
         return;
       }
-      const message = getAuthErrorMessage(error.code);
+      if (code === 'auth/account-exists-with-different-credential') {
+        // AccountLinkPrompt takes over when the pending credential was captured
+        return;
+      }
+      if (code === 'auth/multi-factor-auth-required') {
+        // MfaChallenge takes over on the page
+        return;
+      }
+      const message = getAuthErrorMessage(error);
       onError?.(message);
     } finally {
       setLoading(null);
     }
   };
 
+  if (pendingLink) {
+    return <AccountLinkPrompt onSuccess={onSuccess} onError={onError} />;
+  }
+
   return (
     <div className="flex flex-col gap-3">
-      <button
-        onClick={() => handleSignIn('google', signInWithGoogle)}
-        disabled={loading !== null}
-        className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {loading === 'google' ? 'Signing in...' : 'Continue with Google'}
-      </button>
-
-      <button
-        onClick={() => handleSignIn('github', signInWithGitHub)}
-        disabled={loading !== null}
-        className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {loading === 'github' ? 'Signing in...' : 'Continue with GitHub'}
-      </button>
-
-      <button
-        onClick={() => handleSignIn('twitter', signInWithTwitter)}
-        disabled={loading !== null}
-        className="flex items-center justify-center gap-2 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {loading === 'twitter' ? 'Signing in...' : 'Continue with X'}
-      </button>
+      {getEnabledProviders().map((provider) => (
+        <button
+          key={provider.id}
+          onClick={() => handleSignIn(provider.id)}
+          disabled={loading !== null}
+          className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+            provider.dark
+              ? 'bg-gray-900 text-white hover:bg-gray-800'
+              : 'border border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <ProviderIcon icon={provider.icon} />
+          {loading === provider.id ? 'Signing in...' : `Continue with ${provider.label}`}
+        </button>
+      ))}
     </div>
   );
 }
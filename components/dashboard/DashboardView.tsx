@@ -0,0 +1,195 @@
+// components/dashboard/DashboardView.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/context/AuthContext';
+import { LogoutButton } from '@/components/auth/LogoutButton';
+import { ConnectedAccounts } from '@/components/auth/ConnectedAccounts';
+import { MfaSettings } from '@/components/auth/MfaSettings';
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons';
+import type { UserProfile } from '@/types/auth';
+
+interface DashboardViewProps {
+  // Read on the server; replaced by the live profile once it loads
+  initialProfile: UserProfile | null;
+}
+
+// Renders from the server-verified user first, then from Firebase once it initializes
+export function DashboardView({ initialProfile }: DashboardViewProps) {
+  const { user, currentUser, profile: liveProfile, hasRole, isGuest } = useAuth();
+  const [upgradeError, setUpgradeError] = useState<string | null>(null);
+
+  const profile =
+    liveProfile ?? (initialProfile?.uid === currentUser?.uid ? initialProfile : null);
+
+  // The profile holds user edits; fall back to the auth user until it loads
+  const displayName = profile?.displayName ?? currentUser?.displayName;
+  const photoURL = profile?.photoURL ?? currentUser?.photoURL;
+  const isImpersonating = Boolean(currentUser?.impersonatedBy);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <h1 className="text-xl font-semibold text-gray-900">Dashboard</h1>
+            <div className="flex items-center gap-4">
+              {!isGuest && (
+                <>
+                  <Link href="/profile" className="text-sm text-blue-600 hover:underline">
+                    Profile
+                  </Link>
+                  <Link href="/sessions" className="text-sm text-blue-600 hover:underline">
+                    Sessions
+                  </Link>
+                  <Link href="/activity" className="text-sm text-blue-600 hover:underline">
+                    Activity
+                  </Link>
+                  <Link href="/tokens" className="text-sm text-blue-600 hover:underline">
+                    Tokens
+                  </Link>
+                </>
+              )}
+              {hasRole('admin') && (
+                <Link href="/admin/users" className="text-sm text-blue-600 hover:underline">
+                  Admin
+                </Link>
+              )}
+              {!isImpersonating && <LogoutButton everywhere />}
+              <LogoutButton />
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isGuest && (
+          <div className="mb-6 p-6 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <h3 className="text-lg font-semibold text-yellow-900 mb-2">
+              You&apos;re using a guest account
+            </h3>
+            <p className="text-sm text-yellow-800 mb-4">
+              Sign in to keep your work. Anything you did as a guest moves to your account.
+            </p>
+            {upgradeError && <p className="text-sm text-red-600 mb-4">{upgradeError}</p>}
+            <div className="max-w-sm">
+              <SocialLoginButtons
+                onSuccess={() => setUpgradeError(null)}
+                onError={(message) => setUpgradeError(message)}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="flex items-center space-x-4 mb-6">
+            {photoURL && (
+              <img
+                src={photoURL}
+                alt={displayName || 'User'}
+                className="w-16 h-16 rounded-full"
+              />
+            )}
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">
+                Welcome, {displayName || (isGuest ? 'Guest' : 'User')}!
+              </h2>
+              <p className="text-gray-600">{currentUser?.email}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8">
+            <div className="p-6 bg-blue-50 rounded-lg">
+              <h3 className="text-lg font-semibold text-blue-900 mb-2">
+                User ID
+              </h3>
+              <p className="text-blue-700 font-mono text-sm break-all">
+                {currentUser?.uid}
+              </p>
+            </div>
+
+            <div className="p-6 bg-green-50 rounded-lg">
+              <h3 className="text-lg font-semibold text-green-900 mb-2">
+                Email Verified
+              </h3>
+              <p className="text-green-700">
+                {currentUser?.emailVerified ? 'Yes ✓' : 'No ✗'}
+              </p>
+            </div>
+
+            <div className="p-6 bg-purple-50 rounded-lg">
+              <h3 className="text-lg font-semibold text-purple-900 mb-2">
+                Account Created
+              </h3>
+              <p className="text-purple-700">
+                {currentUser?.creationTime || 'Unknown'}
+              </p>
+            </div>
+
+            <div className="p-6 bg-orange-50 rounded-lg">
+              <h3 className="text-lg font-semibold text-orange-900 mb-2">
+                Last Sign In
+              </h3>
+              <p className="text-orange-700">
+                {currentUser?.lastSignInTime || 'Unknown'}
+              </p>
+            </div>
+
+            <div className="p-6 bg-yellow-50 rounded-lg">
+              <h3 className="text-lg font-semibold text-yellow-900 mb-2">
+                Timezone
+              </h3>
+              <p className="text-yellow-700">
+                {profile?.timezone || 'Not set'}
+              </p>
+            </div>
+
+            <div className="p-6 bg-gray-100 rounded-lg">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                Roles
+              </h3>
+              <p className="text-gray-700">
+                {currentUser?.roles.length ? currentUser.roles.join(', ') : 'None'}
+              </p>
+            </div>
+          </div>
+
+          {/* These act on the Firebase user, so they wait for it. Support staff
+              impersonating the user may not change their sign-in methods. */}
+          {user && !isGuest && !isImpersonating && (
+            <>
+              <ConnectedAccounts />
+
+              <MfaSettings />
+            </>
+          )}
+
+          <div className="mt-8 p-6 bg-gray-50 rounded-lg">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              What's Next?
+            </h3>
+            <ul className="space-y-2 text-gray-700">
+              <li>✓ Authentication is fully configured</li>
+              <li>✓ User session is managed automatically</li>
+              <li>✓ Tokens refresh automatically before they expire</li>
+              <li>
+                → Check the protected API route at{' '}
+                <code className="bg-gray-200 px-2 py-1 rounded text-sm">
+                  /api/protected
+                </code>
+              </li>
+              <li>
+                → Build your own features using{' '}
+                <code className="bg-gray-200 px-2 py-1 rounded text-sm">
+                  useAuth()
+                </code>{' '}
+                hook
+              </li>
+            </ul>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
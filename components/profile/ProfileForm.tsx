@@ -0,0 +1,120 @@
+// components/profile/ProfileForm.tsx
+'use client';
+
+import { useActionState } from 'react';
+import { updateProfileAction, type ProfileFormState } from '@/actions/profile-actions';
+import { THEMES } from '@/lib/firebase/profile';
+import type { UserProfile } from '@/types/auth';
+
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+const inputClassName =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+export function ProfileForm({ profile }: { profile: UserProfile }) {
+  const [state, formAction, pending] = useActionState<ProfileFormState, FormData>(
+    updateProfileAction,
+    {}
+  );
+
+  return (
+    <form action={formAction} className="space-y-6">
+      {state.error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{state.error}</p>
+        </div>
+      )}
+      {state.success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-sm text-green-700">Profile saved.</p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="displayName" className="block text-sm font-medium text-gray-700 mb-1">
+          Display name
+        </label>
+        <input
+          id="displayName"
+          name="displayName"
+          type="text"
+          autoComplete="name"
+          maxLength={100}
+          defaultValue={profile.displayName ?? ''}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="photoURL" className="block text-sm font-medium text-gray-700 mb-1">
+          Avatar URL
+        </label>
+        <input
+          id="photoURL"
+          name="photoURL"
+          type="url"
+          placeholder="https://"
+          defaultValue={profile.photoURL ?? ''}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">
+          Timezone
+        </label>
+        <select
+          id="timezone"
+          name="timezone"
+          defaultValue={profile.timezone ?? ''}
+          className={inputClassName}
+        >
+          <option value="">Not set</option>
+          {TIMEZONES.map((timezone) => (
+            <option key={timezone} value={timezone}>
+              {timezone}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-medium text-gray-700 mb-1">Preferences</legend>
+        <div>
+          <label htmlFor="theme" className="block text-sm text-gray-700 mb-1">
+            Theme
+          </label>
+          <select
+            id="theme"
+            name="theme"
+            defaultValue={profile.preferences.theme}
+            className={inputClassName}
+          >
+            {THEMES.map((theme) => (
+              <option key={theme} value={theme}>
+                {theme.charAt(0).toUpperCase() + theme.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            name="emailNotifications"
+            defaultChecked={profile.preferences.emailNotifications}
+            className="h-4 w-4"
+          />
+          Email me about account activity
+        </label>
+      </fieldset>
+
+      <button
+        type="submit"
+        disabled={pending}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {pending ? 'Saving...' : 'Save profile'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,94 @@
+// components/tokens/CreateAccessTokenForm.tsx
+'use client';
+
+import { useActionState } from 'react';
+import {
+  createAccessTokenAction,
+  type CreateAccessTokenState,
+} from '@/actions/access-token-actions';
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  ACCESS_TOKEN_SCOPES,
+  ACCESS_TOKEN_SCOPE_LABELS,
+  MAX_ACCESS_TOKEN_NAME_LENGTH,
+} from '@/lib/firebase/access-token';
+
+const inputClassName =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+export function CreateAccessTokenForm() {
+  const [state, formAction, pending] = useActionState<CreateAccessTokenState, FormData>(
+    createAccessTokenAction,
+    {}
+  );
+
+  return (
+    <form action={formAction} className="space-y-6">
+      {state.error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{state.error}</p>
+        </div>
+      )}
+      {state.token && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg space-y-2">
+          <p className="text-sm text-green-700">
+            Copy your new token now. It will not be shown again.
+          </p>
+          <input
+            readOnly
+            value={state.token}
+            onFocus={(event) => event.target.select()}
+            className={`${inputClassName} font-mono text-sm bg-white`}
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+          Name
+        </label>
+        <input
+          id="name"
+          name="name"
+          type="text"
+          required
+          maxLength={MAX_ACCESS_TOKEN_NAME_LENGTH}
+          placeholder="CI deploy script"
+          className={inputClassName}
+        />
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-gray-700 mb-1">Scopes</legend>
+        {ACCESS_TOKEN_SCOPES.map((scope) => (
+          <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" name="scopes" value={scope} className="h-4 w-4" />
+            <code className="text-xs">{scope}</code>
+            <span className="text-gray-500">{ACCESS_TOKEN_SCOPE_LABELS[scope]}</span>
+          </label>
+        ))}
+      </fieldset>
+
+      <div>
+        <label htmlFor="expiresInDays" className="block text-sm font-medium text-gray-700 mb-1">
+          Expires
+        </label>
+        <select id="expiresInDays" name="expiresInDays" defaultValue="30" className={inputClassName}>
+          {ACCESS_TOKEN_EXPIRY_DAYS.map((days) => (
+            <option key={days ?? 'never'} value={days ?? 'never'}>
+              {days === null ? 'Never' : `In ${days} days`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        type="submit"
+        disabled={pending}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {pending ? 'Creating...' : 'Create token'}
+      </button>
+    </form>
+  );
+}
@@ -3,100 +3,720 @@
 
 import {
   createContext,
+  useCallback,
   useContext,
   useEffect,
+  useRef,
   useState,
   type ReactNode,
 } from 'react';
-import { type User } from 'firebase/auth';
+import { useRouter } from 'next/navigation';
+import { type MultiFactorResolver, type User, type UserCredential } from 'firebase/auth';
 import {
   signInWithProvider,
+  signInAsGuest as firebaseSignInAsGuest,
+  signInWithToken,
+  getLinkConflictCredential,
+  signInWithConflictCredential,
+  signInWithEmail as firebaseSignInWithEmail,
+  signUpWithEmail as firebaseSignUpWithEmail,
+  linkEmailPassword as firebaseLinkEmailPassword,
+  sendSignInLink as firebaseSendSignInLink,
+  completeEmailLinkSignIn as firebaseCompleteEmailLinkSignIn,
+  sendPasswordReset as firebaseSendPasswordReset,
+  sendVerificationEmail as firebaseSendVerificationEmail,
+  getPendingLink,
+  linkPendingCredential,
+  linkProvider as firebaseLinkProvider,
+  unlinkProvider as firebaseUnlinkProvider,
+  authorizeProvider as firebaseAuthorizeProvider,
+  providerAccessTokenFromResult,
   handleRedirectResult,
+  takeRedirectReturnTo,
   signOut as firebaseSignOut,
   onAuthStateChange,
+  onRolesChanged,
+  onProfileChanged,
+  type PendingLink,
 } from '@/lib/firebase/auth';
+import { AuthError } from '@/lib/errors/auth-error';
+import { impersonatorFromClaims } from '@/lib/firebase/impersonation';
+import { getMfaResolver } from '@/lib/firebase/mfa';
+import { getProviderConfig, providerNameFromId } from '@/lib/firebase/providers';
+import { hasRole as userHasRole, rolesFromClaims } from '@/lib/firebase/roles';
+import { startTokenRefresher } from '@/lib/firebase/token-refresh';
+import { createTabChannel, type TabChannel } from '@/lib/tabs/channel';
+import { electLeader } from '@/lib/tabs/leader';
+import { apiFetch } from '@/utils/apiFetch';
+import { sanitizeReturnTo } from '@/utils/redirects';
+import type {
+  AuthProvider as AuthProviderName,
+  CurrentUser,
+  Role,
+  SessionStatus,
+  UserProfile,
+} from '@/types/auth';
 
 interface AuthContextType {
   user: User | null;
+  currentUser: CurrentUser | null;
   loading: boolean;
-  signInWithGoogle: () => Promise<void>;
-  signInWithGitHub: () => Promise<void>;
-  signInWithTwitter: () => Promise<void>;
-  signOut: () => Promise<void>;
+  isGuest: boolean;
+  signInAsGuest: () => Promise<void>;
+  signIn: (providerName: AuthProviderName, returnTo?: string) => Promise<void>;
+  signInWithEmail: (email: string, password: string) => Promise<void>;
+  signUpWithEmail: (email: string, password: string, displayName?: string) => Promise<void>;
+  sendSignInLink: (email: string) => Promise<void>;
+  completeEmailLinkSignIn: (email: string, url: string) => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  checkEmailVerified: () => Promise<boolean>;
+  pendingLink: PendingLink | null;
+  completePendingLink: (method: AuthProviderName | 'password', password?: string) => Promise<void>;
+  cancelPendingLink: () => void;
+  mfaResolver: MultiFactorResolver | null;
+  finishMfaSignIn: (credential: UserCredential) => Promise<void>;
+  cancelMfaSignIn: () => void;
+  linkProvider: (providerName: AuthProviderName) => Promise<void>;
+  unlinkProvider: (providerName: AuthProviderName) => Promise<void>;
+  authorizeProvider: (providerName: AuthProviderName, scopes?: string[]) => Promise<void>;
+  ensureSession: () => Promise<void>;
+  profile: UserProfile | null;
+  roles: Role[];
+  hasRole: (...roles: Role[]) => boolean;
+  refreshRoles: () => Promise<void>;
+  signOut: (options?: SignOutOptions) => Promise<void>;
+  impersonate: (uid: string) => Promise<void>;
+  stopImpersonating: () => Promise<void>;
+  sessionStatus: SessionStatus | null;
+  expiresAt: Date | null;
+}
+
+interface SignOutOptions {
+  // Revoke every session for this user, not just the one in this browser
+  everywhere?: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-export function AuthProvider({ children }: { children: ReactNode }) {
+// Reuse the current session cookie when it already belongs to this user,
+// otherwise exchange the ID token for a new httpOnly session cookie
+async function establishServerSession(user: User, reuseExisting: boolean) {
+  if (reuseExisting) {
+    const response = await fetch('/api/session');
+    const current = response.ok ? await response.json() : null;
+    if (current?.uid === user.uid) {
+      return;
+    }
+  }
+
+  const response = await apiFetch('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken: await user.getIdToken() }),
+  });
+
+  if (response.ok) {
+    return;
+  }
+
+  const error = await AuthError.fromResponse(response);
+  if (error.code === 'session-ended') {
+    // Signed out from the sessions page on another device: drop the local login too
+    await firebaseSignOut();
+  }
+  throw error;
+}
+
+// Hand the provider's OAuth access token from a popup or redirect result to the
+// server, which keeps it encrypted for API calls made on the user's behalf
+async function storeProviderToken(
+  providerName: AuthProviderName,
+  result: UserCredential,
+  extraScopes?: string[]
+) {
+  const token = providerAccessTokenFromResult(providerName, result, extraScopes);
+  if (!token) {
+    return;
+  }
+
+  const response = await apiFetch('/api/provider-tokens', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(token),
+  });
+  if (!response.ok) {
+    throw await AuthError.fromResponse(response);
+  }
+}
+
+async function clearServerSession() {
+  await apiFetch('/api/session', { method: 'DELETE' });
+}
+
+// Sent to the other tabs when the signed-in user changes in this one
+interface AuthTabMessage {
+  type: 'signed-in' | 'signed-out' | 'user-changed';
+  uid: string | null;
+}
+
+function authTabMessage(previousUid: string | null, uid: string | null): AuthTabMessage {
+  if (!uid) {
+    return { type: 'signed-out', uid };
+  }
+  return { type: previousUid ? 'user-changed' : 'signed-in', uid };
+}
+
+function currentUserFrom(user: User, roles: Role[], impersonatedBy: string | null): CurrentUser {
+  return {
+    uid: user.uid,
+    email: user.email,
+    displayName: user.displayName,
+    photoURL: user.photoURL,
+    emailVerified: user.emailVerified,
+    isGuest: user.isAnonymous,
+    roles,
+    impersonatedBy,
+    creationTime: user.metadata.creationTime ?? null,
+    lastSignInTime: user.metadata.lastSignInTime ?? null,
+  };
+}
+
+interface SyncSessionOptions {
+  // Check the server again even if this user was already synced
+  recheck?: boolean;
+  // Mint a new cookie so it carries refreshed claims
+  remint?: boolean;
+}
+
+interface AuthProviderProps {
+  children: ReactNode;
+  // From getCurrentUser() in the root layout
+  initialUser?: CurrentUser | null;
+}
+
+export function AuthProvider({ children, initialUser = null }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const [roles, setRoles] = useState<Role[]>(initialUser?.roles ?? []);
+  const [latestProfile, setLatestProfile] = useState<UserProfile | null>(null);
+  // Anonymous user; kept as state because linking a provider mutates the same User
+  const [isGuest, setIsGuest] = useState(initialUser?.isGuest ?? false);
+  // Admin behind an impersonated session, from the ID token claims like roles
+  const [impersonatedBy, setImpersonatedBy] = useState(initialUser?.impersonatedBy ?? null);
+  // ID token of a guest who signed in to an existing account, until its data is merged
+  const guestTokenRef = useRef<string | null>(null);
+  // The server just verified the cookie of an initial user, so it needs no recheck
+  const sessionRef = useRef<{ uid: string | null; pending: Promise<void> } | null>(
+    initialUser ? { uid: initialUser.uid, pending: Promise.resolve() } : null
+  );
+  const tabChannelRef = useRef<TabChannel<AuthTabMessage> | null>(null);
+  // Last user this tab saw or heard about; undefined until the first auth state
+  const tabUidRef = useRef<string | null | undefined>(undefined);
+  const [isLeaderTab, setIsLeaderTab] = useState(false);
+  const [isVisible, setIsVisible] = useState(
+    () => typeof document === 'undefined' || document.visibilityState === 'visible'
+  );
+  const [tokenState, setTokenState] = useState<{
+    uid: string;
+    status: SessionStatus;
+    expiresAt: Date | null;
+  } | null>(null);
+
+  // Establish (or clear) the server session once per user change
+  const syncSession = useCallback(
+    (nextUser: User | null, { recheck = false, remint = false }: SyncSessionOptions = {}) => {
+      const uid = nextUser?.uid ?? null;
+      if (!recheck && !remint && sessionRef.current?.uid === uid) {
+        return sessionRef.current.pending;
+      }
+
+      const pending = (
+        nextUser ? establishServerSession(nextUser, !remint) : clearServerSession()
+      ).catch((error) => {
+        sessionRef.current = null;
+        throw error;
+      });
+
+      sessionRef.current = { uid, pending };
+      return pending;
+    },
+    []
+  );
+
+  // Make sure the server still has a session for the signed-in user, e.g.
+  // after being redirected to /login because the cookie expired
+  const ensureSession = useCallback(() => syncSession(user, { recheck: true }), [user, syncSession]);
+
+  // Apply sign-ins and sign-outs from other tabs right away. They already
+  // updated the shared session cookie, so this tab only catches up.
+  useEffect(() => {
+    const channel = createTabChannel<AuthTabMessage>('auth');
+    tabChannelRef.current = channel;
+
+    channel.subscribe((message) => {
+      if (message.uid === tabUidRef.current) {
+        return;
+      }
+      tabUidRef.current = message.uid;
+      sessionRef.current = { uid: message.uid, pending: Promise.resolve() };
+
+      if (message.type === 'signed-out') {
+        // Firebase's shared storage is already cleared; this updates the UI now
+        firebaseSignOut().catch(console.error);
+      } else {
+        // Firebase picks up the new user from shared storage shortly
+        router.refresh();
+      }
+    });
+
+    return () => {
+      tabChannelRef.current = null;
+      channel.close();
+    };
+  }, [router]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // One tab refreshes tokens for all of them. Hidden tabs do not refresh, so a
+  // tab going to the background hands leadership to one the user can see.
+  useEffect(() => (isVisible ? electLeader('auth-refresh', setIsLeaderTab) : undefined), [isVisible]);
 
   useEffect(() => {
-    // Handle redirect result on mount
-    handleRedirectResult().catch(console.error);
+    // Handle redirect result on mount, then continue to the saved destination
+    handleRedirectResult()
+      .then(async (result) => {
+        const returnTo = takeRedirectReturnTo();
+        if (result) {
+          await syncSession(result.user);
+          const providerName = result.providerId && providerNameFromId(result.providerId);
+          if (providerName) {
+            storeProviderToken(providerName, result).catch(console.error);
+          }
+          router.replace(sanitizeReturnTo(returnTo));
+        }
+      })
+      .catch(console.error);
 
     // Subscribe to auth state changes AND token refresh
     const unsubscribe = onAuthStateChange(async (user) => {
       setUser(user);
+      setIsGuest(user?.isAnonymous ?? false);
 
-      if (user) {
-        // Store token in cookie for server-side access
-        const token = await user.getIdToken();
-        document.cookie = `__session=${token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax; ${
-          process.env.NODE_ENV === 'production' ? 'Secure;' : ''
-        }`;
-      } else {
-        // Clear cookie on sign out
-        document.cookie = '__session=; path=/; max-age=0';
+      const uid = user?.uid ?? null;
+      if (tabUidRef.current !== undefined && tabUidRef.current !== uid) {
+        tabChannelRef.current?.post(authTabMessage(tabUidRef.current, uid));
+      }
+      tabUidRef.current = uid;
+
+      // A failure here must not leave the app loading forever
+      try {
+        // Roles come from custom claims on the (possibly refreshed) ID token
+        const tokenResult = await user?.getIdTokenResult();
+        setRoles(rolesFromClaims(tokenResult?.claims));
+        setImpersonatedBy(impersonatorFromClaims(tokenResult?.claims));
+
+        await syncSession(user);
+      } catch (error) {
+        console.error('Session sync error:', error);
       }
 
       setLoading(false);
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [syncSession, router]);
+
+  // Refresh the ID token ahead of its expiry. Only the leader tab refreshes;
+  // Firebase shares the new token with the other tabs.
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    return startTokenRefresher({
+      user,
+      canRefresh: isLeaderTab,
+      onStatusChange: (status, expiresAt) => setTokenState({ uid: user.uid, status, expiresAt }),
+    });
+  }, [user, isLeaderTab]);
+
+  // Ignore state left over from a previous user
+  const currentTokenState = user && tokenState?.uid === user.uid ? tokenState : null;
 
-  // Force token refresh every 10 minutes (tokens expire after 1 hour)
+  // Force a token refresh so new custom claims reach the client and the session cookie
+  const refreshRoles = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+    await user.getIdToken(true);
+    await syncSession(user, { remint: true });
+  }, [user, syncSession]);
+
+  // Refresh when the server reports a role change newer than our token
   useEffect(() => {
-    const interval = setInterval(async () => {
-      const currentUser = user;
-      if (currentUser) {
-        const token = await currentUser.getIdToken(true);
-        document.cookie = `__session=${token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax; ${
-          process.env.NODE_ENV === 'production' ? 'Secure;' : ''
-        }`;
+    if (!user) {
+      return;
+    }
+
+    return onRolesChanged(user.uid, async (updatedAt) => {
+      const { issuedAtTime } = await user.getIdTokenResult();
+      if (updatedAt && updatedAt.getTime() > new Date(issuedAtTime).getTime()) {
+        refreshRoles().catch(console.error);
       }
-    }, 10 * 60 * 1000);
+    });
+  }, [user, refreshRoles]);
 
-    return () => clearInterval(interval);
+  // Follow the user's profile document; ignore a stale snapshot from a previous user
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    return onProfileChanged(user.uid, setLatestProfile);
   }, [user]);
 
-  const signInWithGoogle = async () => {
-    await signInWithProvider('google');
+  const profile = user && latestProfile?.uid === user.uid ? latestProfile : null;
+
+  const currentUser = loading ? initialUser : user && currentUserFrom(user, roles, impersonatedBy);
+
+  const hasRole = (...required: Role[]) => userHasRole(roles, ...required);
+
+  // Support staff may look around as the user but not change how they sign in.
+  // The server refuses these too; this stops the Firebase-only ones.
+  const assertNotImpersonating = () => {
+    if (impersonatedBy) {
+      throw new AuthError('impersonation-restricted');
+    }
   };
 
-  const signInWithGitHub = async () => {
-    await signInWithProvider('github');
+  // A second factor is required: keep the resolver so MfaChallenge can finish sign-in
+  const captureMfaChallenge = (error: unknown) => {
+    const resolver = getMfaResolver(error);
+    if (resolver) {
+      setMfaResolver(resolver);
+    }
   };
 
-  const signInWithTwitter = async () => {
-    await signInWithProvider('twitter');
+  // Remember the guest before switching accounts so their data can follow
+  const rememberGuest = async () => {
+    if (user?.isAnonymous) {
+      guestTokenRef.current = await user.getIdToken();
+    }
   };
 
-  const signOut = async () => {
-    await firebaseSignOut();
-    document.cookie = '__session=; path=/; max-age=0';
+  // Move a remembered guest's data into the account that is now signed in.
+  // Sign-in already succeeded, so a failure here is only logged.
+  const mergeRememberedGuest = async () => {
+    const guestIdToken = guestTokenRef.current;
+    guestTokenRef.current = null;
+    if (!guestIdToken) {
+      return;
+    }
+
+    const response = await apiFetch('/api/guest/merge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ guestIdToken }),
+    });
+    if (!response.ok) {
+      console.error('Guest merge failed:', response.status);
+    }
+  };
+
+  const signInAsGuest = async () => {
+    const { user } = await firebaseSignInAsGuest();
+    await syncSession(user);
+  };
+
+  // Link the provider to the guest so the uid and its data carry over. When the
+  // provider account already exists, sign in to it and merge the guest instead.
+  const upgradeGuest = async (guest: User, providerName: AuthProviderName) => {
+    let result: UserCredential;
+    try {
+      result = await firebaseLinkProvider(guest, providerName);
+    } catch (error) {
+      const credential = getLinkConflictCredential(providerName, error);
+      if (!credential) {
+        throw error;
+      }
+
+      await rememberGuest();
+      const conflictResult = await signInWithConflictCredential(credential);
+      await syncSession(conflictResult.user);
+      await mergeRememberedGuest();
+      storeProviderToken(providerName, conflictResult).catch(console.error);
+      return;
+    }
+
+    await guest.getIdToken(true);
+    await syncSession(guest, { remint: true });
+    setIsGuest(false);
+    storeProviderToken(providerName, result).catch(console.error);
+  };
+
+  // Wait for the session cookie so server-protected pages see the new user.
+  // An email collision keeps the provider credential around for linking.
+  const signIn = async (providerName: AuthProviderName, returnTo?: string) => {
+    try {
+      if (user?.isAnonymous) {
+        await upgradeGuest(user, providerName);
+        return;
+      }
+
+      const result = await signInWithProvider(providerName, returnTo);
+      await syncSession(result.user);
+      storeProviderToken(providerName, result).catch(console.error);
+    } catch (error) {
+      captureMfaChallenge(error);
+      const pending = await getPendingLink(providerName, error);
+      if (pending) {
+        setPendingLink(pending);
+      }
+      throw error;
+    }
+  };
+
+  const signInWithEmail = async (email: string, password: string) => {
+    try {
+      await rememberGuest();
+      const { user } = await firebaseSignInWithEmail(email, password);
+      await syncSession(user);
+      await mergeRememberedGuest();
+    } catch (error) {
+      captureMfaChallenge(error);
+      throw error;
+    }
+  };
+
+  // A guest signing up keeps their uid and data; the email is linked to them
+  const signUpWithEmail = async (email: string, password: string, displayName?: string) => {
+    if (user?.isAnonymous) {
+      await firebaseLinkEmailPassword(user, email, password, displayName);
+      await user.getIdToken(true);
+      await syncSession(user, { remint: true });
+      setIsGuest(false);
+      return;
+    }
+
+    const { user: newUser } = await firebaseSignUpWithEmail(email, password, displayName);
+    await syncSession(newUser);
+  };
+
+  const sendSignInLink = async (email: string) => {
+    await firebaseSendSignInLink(email);
+  };
+
+  const completeEmailLinkSignIn = async (email: string, url: string) => {
+    try {
+      const { user } = await firebaseCompleteEmailLinkSignIn(email, url);
+      await syncSession(user);
+    } catch (error) {
+      captureMfaChallenge(error);
+      throw error;
+    }
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    await firebaseSendPasswordReset(email);
+  };
+
+  const sendVerificationEmail = async () => {
+    if (!user) {
+      throw new Error('No signed-in user');
+    }
+    await firebaseSendVerificationEmail(user);
+  };
+
+  // Reload the user after they click the verification link; once verified,
+  // refresh the token and re-mint the session so the server sees email_verified
+  const checkEmailVerified = async () => {
+    if (!user) {
+      return false;
+    }
+
+    await user.reload();
+    if (!user.emailVerified) {
+      return false;
+    }
+
+    await user.getIdToken(true);
+    await syncSession(user, { remint: true });
+    return true;
+  };
+
+  // Sign in with the account's existing method, then link the pending credential
+  const completePendingLink = async (method: AuthProviderName | 'password', password?: string) => {
+    if (!pendingLink) {
+      throw new Error('No pending account link');
+    }
+
+    const { user } =
+      method === 'password'
+        ? await firebaseSignInWithEmail(pendingLink.email, password ?? '')
+        : await signInWithProvider(method);
+
+    const linked = await linkPendingCredential(user, pendingLink);
+    await syncSession(user);
+    storeProviderToken(pendingLink.providerName, linked).catch(console.error);
+    await mergeRememberedGuest();
+    setPendingLink(null);
+  };
+
+  const cancelPendingLink = () => {
+    guestTokenRef.current = null;
+    setPendingLink(null);
+  };
+
+  // The MFA-verified token carries firebase.sign_in_second_factor into the session cookie
+  const finishMfaSignIn = async (credential: UserCredential) => {
+    await syncSession(credential.user);
+    setMfaResolver(null);
+  };
+
+  const cancelMfaSignIn = () => {
+    setMfaResolver(null);
+  };
+
+  const linkProvider = async (providerName: AuthProviderName) => {
+    if (!user) {
+      throw new Error('No signed-in user');
+    }
+    assertNotImpersonating();
+    const result = await firebaseLinkProvider(user, providerName);
+    storeProviderToken(providerName, result).catch(console.error);
+  };
+
+  const unlinkProvider = async (providerName: AuthProviderName) => {
+    if (!user) {
+      throw new Error('No signed-in user');
+    }
+    assertNotImpersonating();
+    if (user.providerData.length <= 1) {
+      throw new Error('Cannot remove the only sign-in method');
+    }
+    await firebaseUnlinkProvider(user, providerName);
+
+    // The stored access token belonged to the disconnected account
+    const response = await apiFetch('/api/provider-tokens', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ providerId: getProviderConfig(providerName).providerId }),
+    });
+    if (!response.ok) {
+      console.error('Provider token removal failed:', response.status);
+    }
+  };
+
+  // Consent to the provider again, for more scopes or to replace a missing or
+  // expired access token (e.g. after an API route answers provider-consent-required)
+  const authorizeProvider = async (providerName: AuthProviderName, scopes: string[] = []) => {
+    if (!user) {
+      throw new Error('No signed-in user');
+    }
+    assertNotImpersonating();
+    const result = await firebaseAuthorizeProvider(user, providerName, scopes);
+    await storeProviderToken(providerName, result, scopes);
+  };
+
+  // End the server session first, while the cookie still identifies the user.
+  // The local sign-out happens even if the server call fails.
+  const signOut = async ({ everywhere = false }: SignOutOptions = {}) => {
+    if (everywhere) {
+      assertNotImpersonating();
+    }
+
+    try {
+      const response = await apiFetch('/api/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ everywhere }),
+      });
+
+      if (!response.ok) {
+        throw await AuthError.fromResponse(response);
+      }
+    } finally {
+      sessionRef.current = { uid: null, pending: Promise.resolve() };
+      await firebaseSignOut();
+    }
+  };
+
+  // Sign in as another user for support. The server sets this admin's session
+  // cookie aside so stopImpersonating() can bring it back.
+  const impersonate = async (uid: string) => {
+    const response = await apiFetch('/api/admin/impersonation', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uid }),
+    });
+    if (!response.ok) {
+      throw await AuthError.fromResponse(response);
+    }
+
+    const { token } = await response.json();
+    const { user } = await signInWithToken(token);
+    await syncSession(user);
+  };
+
+  // The server restores the admin's own session cookie, so signing back in to
+  // Firebase needs no new session. Without one to restore, this signs out.
+  const stopImpersonating = async () => {
+    const response = await apiFetch('/api/impersonation', { method: 'DELETE' });
+    if (!response.ok) {
+      throw await AuthError.fromResponse(response);
+    }
+
+    const { uid, token } = await response.json();
+    sessionRef.current = { uid, pending: Promise.resolve() };
+    if (token) {
+      await signInWithToken(token);
+    } else {
+      await firebaseSignOut();
+    }
   };
 
   return (
     <AuthContext.Provider
       value={{
         user,
+        currentUser,
         loading,
-        signInWithGoogle,
-        signInWithGitHub,
-        signInWithTwitter,
+        isGuest,
+        signInAsGuest,
+        signIn,
+        signInWithEmail,
+        signUpWithEmail,
+        sendSignInLink,
+        completeEmailLinkSignIn,
+        sendPasswordReset,
+        sendVerificationEmail,
+        checkEmailVerified,
+        pendingLink,
+        completePendingLink,
+        cancelPendingLink,
+        mfaResolver,
+        finishMfaSignIn,
+        cancelMfaSignIn,
+        linkProvider,
+        unlinkProvider,
+        authorizeProvider,
+        ensureSession,
+        profile,
+        roles,
+        hasRole,
+        refreshRoles,
         signOut,
+        impersonate,
+        stopImpersonating,
+        sessionStatus: currentTokenState?.status ?? null,
+        expiresAt: currentTokenState?.expiresAt ?? null,
       }}
     >
       {children}
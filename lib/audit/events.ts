@@ -0,0 +1,66 @@
+// lib/audit/events.ts
+// Audit event model shared by the server and the activity pages.
+
+export const AUDIT_EVENT_TYPES = [
+  'sign-in',
+  'sign-in-failed',
+  'token-verification-failed',
+  'sign-out',
+  'sign-out-everywhere',
+  'guest-upgraded',
+  'guest-merged',
+  'session-terminated',
+  'access-token-created',
+  'access-token-revoked',
+  'tokens-revoked',
+  'roles-changed',
+  'user-disabled',
+  'user-enabled',
+  'email-verified',
+  'display-name-changed',
+  'user-deleted',
+  'impersonation-started',
+  'impersonation-ended',
+] as const
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number]
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  'sign-in': 'Signed in',
+  'sign-in-failed': 'Sign-in failed',
+  'token-verification-failed': 'Token rejected',
+  'sign-out': 'Signed out',
+  'sign-out-everywhere': 'Signed out on all devices',
+  'guest-upgraded': 'Guest account upgraded',
+  'guest-merged': 'Guest data merged',
+  'session-terminated': 'Session signed out',
+  'access-token-created': 'Access token created',
+  'access-token-revoked': 'Access token revoked',
+  'tokens-revoked': 'Tokens revoked by admin',
+  'roles-changed': 'Roles changed',
+  'user-disabled': 'Account disabled',
+  'user-enabled': 'Account enabled',
+  'email-verified': 'Email marked verified',
+  'display-name-changed': 'Display name changed by admin',
+  'user-deleted': 'Account deleted',
+  'impersonation-started': 'Impersonation started by admin',
+  'impersonation-ended': 'Impersonation ended',
+}
+
+export function isAuditEventType(value: unknown): value is AuditEventType {
+  return typeof value === 'string' && (AUDIT_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+export interface AuditEvent {
+  id: string
+  type: AuditEventType
+  // The account the event is about (null when a token could not be attributed)
+  uid: string | null
+  // Who performed it, when not the user themselves (e.g. an admin)
+  actorUid: string | null
+  ip: string | null
+  userAgent: string | null
+  provider: string | null
+  details: Record<string, string | number | boolean | null>
+  createdAt: Date
+}
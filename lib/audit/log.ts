@@ -0,0 +1,155 @@
+// lib/audit/log.ts
+import 'server-only'
+
+import { headers } from 'next/headers'
+import type { Query } from 'firebase-admin/firestore'
+import { getClientIp } from '@/utils/request'
+import {
+  AUDIT_EVENT_LABELS,
+  isAuditEventType,
+  type AuditEvent,
+  type AuditEventType,
+} from './events'
+import { FirestoreAuditSink, auditEventsCollection, type AuditSink } from './sink'
+
+// Every event goes to each sink; add e.g. ConsoleAuditSink to forward them
+const auditSinks: AuditSink[] = [new FirestoreAuditSink()]
+
+export interface AuditEventInput {
+  type: AuditEventType
+  uid: string | null
+  actorUid?: string | null
+  provider?: string | null
+  details?: AuditEvent['details']
+  // Read from the current request when omitted
+  ip?: string | null
+  userAgent?: string | null
+}
+
+// Request headers are only available while handling a request
+async function requestHeaders(): Promise<Headers | null> {
+  try {
+    return await headers()
+  } catch {
+    return null
+  }
+}
+
+// Record an audit event. Failures are logged and never break the calling flow.
+export async function recordAuditEvent(input: AuditEventInput) {
+  const requestHeaderList = await requestHeaders()
+  const event: Omit<AuditEvent, 'id'> = {
+    type: input.type,
+    uid: input.uid,
+    actorUid: input.actorUid ?? null,
+    ip: input.ip !== undefined ? input.ip : requestHeaderList && getClientIp(requestHeaderList),
+    userAgent:
+      input.userAgent !== undefined
+        ? input.userAgent
+        : (requestHeaderList?.get('user-agent') ?? null),
+    provider: input.provider ?? null,
+    details: input.details ?? {},
+    createdAt: new Date(),
+  }
+
+  const results = await Promise.allSettled(auditSinks.map((sink) => sink.write(event)))
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('Audit event write failed:', result.reason)
+    }
+  }
+}
+
+export interface AuditEventFilters {
+  uid?: string
+  type?: AuditEventType
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+export const AUDIT_PAGE_SIZE = 100
+
+// Newest first. Combined filters need composite indexes on auditEvents
+// (Firestore links to the missing index in the error message).
+export async function queryAuditEvents({
+  uid,
+  type,
+  from,
+  to,
+  limit = AUDIT_PAGE_SIZE,
+}: AuditEventFilters = {}): Promise<AuditEvent[]> {
+  let query: Query = auditEventsCollection()
+
+  if (uid) {
+    query = query.where('uid', '==', uid)
+  }
+  if (type) {
+    query = query.where('type', '==', type)
+  }
+  if (from) {
+    query = query.where('createdAt', '>=', from)
+  }
+  if (to) {
+    query = query.where('createdAt', '<=', to)
+  }
+
+  const snapshot = await query.orderBy('createdAt', 'desc').limit(limit).get()
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data()
+    return {
+      id: doc.id,
+      type: data.type,
+      uid: data.uid ?? null,
+      actorUid: data.actorUid ?? null,
+      ip: data.ip ?? null,
+      userAgent: data.userAgent ?? null,
+      provider: data.provider ?? null,
+      details: data.details ?? {},
+      createdAt: data.createdAt.toDate(),
+    }
+  })
+}
+
+// Quote every field and neutralise leading formula characters for spreadsheets
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return `"${safe.replace(/"/g, '""')}"`
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = ['time', 'event', 'uid', 'actor', 'ip', 'provider', 'user agent', 'details']
+  const rows = events.map((event) => [
+    event.createdAt.toISOString(),
+    AUDIT_EVENT_LABELS[event.type] ?? event.type,
+    event.uid ?? '',
+    event.actorUid ?? '',
+    event.ip ?? '',
+    event.provider ?? '',
+    event.userAgent ?? '',
+    JSON.stringify(event.details),
+  ])
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n')
+}
+
+// Filters from `?uid=&type=&from=YYYY-MM-DD&to=YYYY-MM-DD`; dates are whole UTC days
+export function auditFiltersFromParams(params: {
+  uid?: string
+  type?: string
+  from?: string
+  to?: string
+}): AuditEventFilters {
+  const day = (value: string | undefined, time: string) => {
+    const date = value ? new Date(`${value}T${time}Z`) : null
+    return date && !Number.isNaN(date.getTime()) ? date : undefined
+  }
+
+  return {
+    uid: params.uid?.trim() || undefined,
+    type: isAuditEventType(params.type) ? params.type : undefined,
+    from: day(params.from, '00:00:00.000'),
+    to: day(params.to, '23:59:59.999'),
+  }
+}
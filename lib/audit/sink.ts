@@ -0,0 +1,26 @@
+// lib/audit/sink.ts
+import 'server-only'
+
+import { adminDb } from '@/lib/firebase/admin'
+import type { AuditEvent } from './events'
+
+// Destination for audit events, e.g. Firestore, a log pipeline or a SIEM
+export interface AuditSink {
+  write(event: Omit<AuditEvent, 'id'>): Promise<void>
+}
+
+export const auditEventsCollection = () => adminDb.collection('auditEvents')
+
+// Default sink; the activity pages query this collection
+export class FirestoreAuditSink implements AuditSink {
+  async write(event: Omit<AuditEvent, 'id'>) {
+    await auditEventsCollection().add(event)
+  }
+}
+
+// One JSON line per event, for log-based pipelines
+export class ConsoleAuditSink implements AuditSink {
+  async write(event: Omit<AuditEvent, 'id'>) {
+    console.info(JSON.stringify({ audit: true, ...event }))
+  }
+}
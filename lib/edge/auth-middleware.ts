@@ -0,0 +1,96 @@
+// lib/edge/auth-middleware.ts
+import { NextResponse, type NextRequest } from 'next/server'
+import { authErrorResponse } from '@/lib/errors/response'
+import { isAccessToken } from '@/lib/firebase/access-token'
+import { isGuestToken } from '@/lib/firebase/guest'
+import { SESSION_COOKIE_NAME } from '@/lib/firebase/session'
+import { REQUEST_PATH_HEADER, loginUrl } from '@/utils/redirects'
+import { checkCsrf, ensureCsrfCookie } from './csrf'
+import type { VerifiedToken } from './token-verifier'
+
+export interface AuthRouteConfig {
+  // Paths that require a valid token, e.g. '/dashboard/:path*' or '/api/admin/*'
+  protected: string[]
+  // Exceptions inside protected paths that stay open
+  public?: string[]
+  // Protected paths that also admit anonymous guest sessions
+  guest?: string[]
+}
+
+export interface AuthMiddlewareOptions {
+  routes: AuthRouteConfig
+  verifyToken: (token: string) => Promise<VerifiedToken | null>
+}
+
+// Supports exact paths, a trailing '/:path*' (the path and anything below it)
+// and '*' wildcards within a segment.
+export function matchesPathPattern(pattern: string, pathname: string): boolean {
+  const optionalTail = pattern.endsWith('/:path*')
+  const base = optionalTail ? pattern.slice(0, -'/:path*'.length) : pattern
+  const source = base
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*')
+
+  return new RegExp(`^${source}${optionalTail ? '(?:/.*)?' : ''}$`).test(pathname)
+}
+
+export function isProtectedPath(pathname: string, routes: AuthRouteConfig): boolean {
+  if (routes.public?.some((pattern) => matchesPathPattern(pattern, pathname))) {
+    return false
+  }
+  return routes.protected.some((pattern) => matchesPathPattern(pattern, pathname))
+}
+
+export function isGuestPath(pathname: string, routes: AuthRouteConfig): boolean {
+  return routes.guest?.some((pattern) => matchesPathPattern(pattern, pathname)) ?? false
+}
+
+export function createAuthMiddleware({ routes, verifyToken }: AuthMiddlewareOptions) {
+  return async function authMiddleware(request: NextRequest) {
+    const { pathname, search } = request.nextUrl
+
+    // Let server layouts build login redirects that return to this page
+    const requestHeaders = new Headers(request.headers)
+    requestHeaders.set(REQUEST_PATH_HEADER, `${pathname}${search}`)
+    const next = () =>
+      ensureCsrfCookie(request, NextResponse.next({ request: { headers: requestHeaders } }))
+
+    // Checked on every path: public routes like /api/logout act on the session too
+    if (checkCsrf(request)) {
+      return authErrorResponse('csrf-failed', request.headers)
+    }
+
+    if (!isProtectedPath(pathname, routes)) {
+      return next()
+    }
+
+    // Session cookie for browsers, Bearer ID token for API clients
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value
+    const bearerToken = request.headers.get('Authorization')?.split('Bearer ')[1]
+    const token = sessionCookie || bearerToken
+
+    // Personal access tokens live in Firestore, out of reach here; withAuth
+    // checks them and their scope in the route handler
+    if (!sessionCookie && bearerToken && isAccessToken(bearerToken) && pathname.startsWith('/api/')) {
+      return next()
+    }
+
+    const decodedToken = token ? await verifyToken(token) : null
+
+    if (decodedToken && (!isGuestToken(decodedToken) || isGuestPath(pathname, routes))) {
+      return next()
+    }
+
+    // Guests are sent to sign in, which upgrades their account
+    if (decodedToken && pathname.startsWith('/api/')) {
+      return authErrorResponse('account-required', request.headers)
+    }
+
+    if (pathname.startsWith('/api/')) {
+      return authErrorResponse('unauthenticated', request.headers)
+    }
+
+    return NextResponse.redirect(new URL(loginUrl(`${pathname}${search}`), request.url))
+  }
+}
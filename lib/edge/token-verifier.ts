@@ -0,0 +1,129 @@
+// lib/edge/token-verifier.ts
+// Verifies Firebase ID tokens and session cookies with Web Crypto only, so it
+// runs in middleware where firebase-admin is unavailable. Revocation is not
+// checked here; server layouts and routes still do that via firebase-admin.
+import {
+  createRemoteJWKSet,
+  decodeJwt,
+  importX509,
+  jwtVerify,
+  UnsecuredJWT,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose'
+
+// Resolves the verification key for a token's `kid`. Inject a local source
+// (e.g. createLocalJWKSet over generated keys) to verify offline.
+export type KeySource = JWTVerifyGetKey
+
+export const ID_TOKEN_JWKS_URL =
+  'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com'
+export const SESSION_COOKIE_CERTS_URL =
+  'https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys'
+
+const ID_TOKEN_ISSUER = 'https://securetoken.google.com/'
+const SESSION_COOKIE_ISSUER = 'https://session.firebase.google.com/'
+
+// Fallback cache lifetime when the key endpoint sends no max-age
+const DEFAULT_KEY_CACHE_MS = 60 * 60 * 1000
+
+// Session cookie keys are only published as a { kid: PEM certificate } map.
+// Keys are cached for the response's max-age and shared between requests.
+export function createX509KeySource(url: string, fetchImpl: typeof fetch = fetch): KeySource {
+  let cached: { keys: Map<string, CryptoKey>; expiresAt: number } | null = null
+  let pending: Promise<{ keys: Map<string, CryptoKey>; expiresAt: number }> | null = null
+
+  const loadKeys = async () => {
+    const response = await fetchImpl(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch signing keys: ${response.status}`)
+    }
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '')?.[1]
+    const certs: Record<string, string> = await response.json()
+    const entries = await Promise.all(
+      Object.entries(certs).map(async ([kid, pem]) => [kid, await importX509(pem, 'RS256')] as const)
+    )
+
+    return {
+      keys: new Map(entries),
+      expiresAt: Date.now() + (maxAge ? Number(maxAge) * 1000 : DEFAULT_KEY_CACHE_MS),
+    }
+  }
+
+  const getKeys = async () => {
+    if (!cached || cached.expiresAt <= Date.now()) {
+      pending ??= loadKeys().finally(() => {
+        pending = null
+      })
+      cached = await pending
+    }
+    return cached.keys
+  }
+
+  return async (header) => {
+    const key = header.kid ? (await getKeys()).get(header.kid) : undefined
+    if (!key) {
+      throw new Error('No matching signing key')
+    }
+    return key
+  }
+}
+
+export interface TokenVerifierOptions {
+  projectId: string
+  idTokenKeys?: KeySource
+  sessionCookieKeys?: KeySource
+  // The Auth emulator issues unsigned tokens; only the claims are checked.
+  // Never enable outside local development and tests.
+  emulator?: boolean
+}
+
+export interface VerifiedToken extends JWTPayload {
+  uid: string
+  email?: string
+  email_verified?: boolean
+  auth_time: number
+  firebase?: {
+    sign_in_provider?: string
+    identities?: Record<string, unknown>
+  }
+}
+
+// Returns a verifier that accepts either token type, picked by issuer
+export function createTokenVerifier({
+  projectId,
+  idTokenKeys = createRemoteJWKSet(new URL(ID_TOKEN_JWKS_URL)),
+  sessionCookieKeys = createX509KeySource(SESSION_COOKIE_CERTS_URL),
+  emulator = false,
+}: TokenVerifierOptions) {
+  return async function verifyToken(token: string): Promise<VerifiedToken | null> {
+    try {
+      const isSessionCookie = decodeJwt(token).iss?.startsWith(SESSION_COOKIE_ISSUER)
+      const claimOptions = {
+        audience: projectId,
+        issuer: `${isSessionCookie ? SESSION_COOKIE_ISSUER : ID_TOKEN_ISSUER}${projectId}`,
+        requiredClaims: ['sub', 'auth_time'],
+      }
+      const { payload } = emulator
+        ? UnsecuredJWT.decode(token, claimOptions)
+        : await jwtVerify(token, isSessionCookie ? sessionCookieKeys : idTokenKeys, {
+            ...claimOptions,
+            algorithms: ['RS256'],
+          })
+
+      const authTime = payload.auth_time
+      if (
+        !payload.sub ||
+        typeof authTime !== 'number' ||
+        authTime > Math.floor(Date.now() / 1000)
+      ) {
+        return null
+      }
+
+      return { ...payload, uid: payload.sub, auth_time: authTime }
+    } catch {
+      return null
+    }
+  }
+}
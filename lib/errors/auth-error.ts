@@ -0,0 +1,146 @@
+// lib/errors/auth-error.ts
+// One error model for auth failures on the client and the server. Firebase SDK
+// errors keep their 'auth/...' codes; API routes answer with the app codes
+// below in a `{ error, code }` body, so the UI can localize either kind.
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n/locales'
+import { translate, type MessageKey } from '@/lib/i18n/messages'
+
+export type AuthErrorCategory =
+  | 'credentials'
+  | 'validation'
+  | 'account'
+  | 'session'
+  | 'permission'
+  | 'verification'
+  | 'network'
+  | 'rate-limit'
+  | 'cancelled'
+  | 'configuration'
+  | 'unknown'
+
+interface AuthErrorDefinition {
+  category: AuthErrorCategory
+  // Trying the same thing again may succeed
+  retryable: boolean
+  messageKey: MessageKey
+  // HTTP status when an API route returns it
+  status?: number
+}
+
+const define = (
+  category: AuthErrorCategory,
+  messageKey: MessageKey,
+  { retryable = false, status }: { retryable?: boolean; status?: number } = {}
+): AuthErrorDefinition => ({ category, messageKey, retryable, status })
+
+const AUTH_ERROR_DEFINITIONS = {
+  // Firebase Auth SDK
+  'auth/user-not-found': define('credentials', 'user-not-found'),
+  'auth/wrong-password': define('credentials', 'wrong-password'),
+  'auth/invalid-credential': define('credentials', 'invalid-credential'),
+  'auth/email-already-in-use': define('account', 'email-already-in-use'),
+  'auth/weak-password': define('validation', 'weak-password'),
+  'auth/invalid-email': define('validation', 'invalid-email'),
+  'auth/missing-email': define('validation', 'missing-email'),
+  'auth/missing-password': define('validation', 'missing-password'),
+  'auth/too-many-requests': define('rate-limit', 'too-many-requests', { retryable: true }),
+  'auth/user-disabled': define('account', 'user-disabled'),
+  'auth/operation-not-allowed': define('configuration', 'operation-not-allowed'),
+  'auth/network-request-failed': define('network', 'network-request-failed', { retryable: true }),
+  'auth/popup-blocked': define('cancelled', 'popup-blocked', { retryable: true }),
+  'auth/popup-closed-by-user': define('cancelled', 'popup-closed-by-user', { retryable: true }),
+  'auth/account-exists-with-different-credential': define(
+    'account',
+    'account-exists-with-different-credential'
+  ),
+  'auth/credential-already-in-use': define('account', 'credential-already-in-use'),
+  'auth/provider-already-linked': define('account', 'provider-already-linked'),
+  'auth/user-mismatch': define('account', 'user-mismatch'),
+  'auth/id-token-expired': define('session', 'session-expired'),
+  'auth/user-token-expired': define('session', 'session-expired'),
+  'auth/id-token-revoked': define('session', 'session-revoked'),
+  'auth/requires-recent-login': define('session', 'recent-login-required'),
+  'auth/invalid-action-code': define('verification', 'invalid-action-code'),
+  'auth/expired-action-code': define('verification', 'expired-action-code'),
+  'auth/multi-factor-auth-required': define('verification', 'second-factor-required'),
+  'auth/invalid-verification-code': define('verification', 'invalid-verification-code', {
+    retryable: true,
+  }),
+  'auth/missing-verification-code': define('validation', 'missing-verification-code'),
+  'auth/code-expired': define('verification', 'code-expired'),
+  'auth/invalid-phone-number': define('validation', 'invalid-phone-number'),
+  'auth/unverified-email': define('verification', 'unverified-email'),
+  'auth/second-factor-already-in-use': define('account', 'second-factor-already-in-use'),
+  'auth/maximum-second-factor-count-exceeded': define(
+    'account',
+    'maximum-second-factor-count-exceeded'
+  ),
+
+  // Returned by this app's API routes, middleware and server actions
+  unauthenticated: define('session', 'unauthenticated', { status: 401 }),
+  'session-ended': define('session', 'session-ended', { status: 401 }),
+  'recent-login-required': define('session', 'recent-login-required', { status: 401 }),
+  'account-required': define('permission', 'account-required', { status: 403 }),
+  forbidden: define('permission', 'forbidden', { status: 403 }),
+  'email-not-verified': define('verification', 'email-not-verified', { status: 403 }),
+  'mfa-required': define('verification', 'mfa-required', { status: 403 }),
+  'insufficient-scope': define('permission', 'insufficient-scope', { status: 403 }),
+  'provider-consent-required': define('permission', 'provider-consent-required', { status: 403 }),
+  'impersonation-restricted': define('permission', 'impersonation-restricted', { status: 403 }),
+  'csrf-failed': define('permission', 'csrf-failed', { retryable: true, status: 403 }),
+  'rate-limited': define('rate-limit', 'too-many-requests', { retryable: true, status: 429 }),
+  'invalid-request': define('validation', 'invalid-request', { status: 400 }),
+  unknown: define('unknown', 'unknown', { retryable: true, status: 500 }),
+} satisfies Record<string, AuthErrorDefinition>
+
+export type AuthErrorCode = keyof typeof AUTH_ERROR_DEFINITIONS
+
+export function isAuthErrorCode(value: unknown): value is AuthErrorCode {
+  return typeof value === 'string' && Object.hasOwn(AUTH_ERROR_DEFINITIONS, value)
+}
+
+export class AuthError<Code extends AuthErrorCode = AuthErrorCode> extends Error {
+  public readonly category: AuthErrorCategory
+  public readonly retryable: boolean
+  public readonly messageKey: MessageKey
+  public readonly status: number
+
+  // The message is English, for logs; show localizedMessage() to users
+  constructor(public readonly code: Code) {
+    const definition: AuthErrorDefinition = AUTH_ERROR_DEFINITIONS[code]
+    super(translate(definition.messageKey, DEFAULT_LOCALE))
+    this.name = 'AuthError'
+    this.category = definition.category
+    this.retryable = definition.retryable
+    this.messageKey = definition.messageKey
+    this.status = definition.status ?? 400
+  }
+
+  localizedMessage(locale: Locale): string {
+    return translate(this.messageKey, locale)
+  }
+
+  // `{ error, code }` body for API responses
+  toBody(locale: Locale = DEFAULT_LOCALE) {
+    return { error: this.localizedMessage(locale), code: this.code }
+  }
+
+  // Normalize anything thrown or returned: AuthErrors, Firebase errors and
+  // API error bodies. Codes this app does not know become 'unknown'.
+  static from(error: unknown): AuthError {
+    if (error instanceof AuthError) {
+      return error
+    }
+    const code = typeof error === 'object' && error !== null && 'code' in error ? error.code : null
+    return new AuthError(isAuthErrorCode(code) ? code : 'unknown')
+  }
+
+  // Rebuild the error from a failed API response
+  static async fromResponse(response: Response): Promise<AuthError> {
+    const body = await response.json().catch(() => null)
+    if (!isAuthErrorCode(body?.code) && response.status === 429) {
+      return new AuthError('rate-limited')
+    }
+    return AuthError.from(body)
+  }
+}
@@ -0,0 +1,15 @@
+// lib/errors/response.ts
+import { NextResponse } from 'next/server'
+import { localeFromAcceptLanguage } from '@/lib/i18n/locales'
+import { AuthError, type AuthErrorCode } from './auth-error'
+
+// `{ error, code }` response with the message in the caller's language
+export function authErrorResponse(
+  error: AuthError | AuthErrorCode,
+  requestHeaders: Headers,
+  init: ResponseInit = {}
+) {
+  const authError = typeof error === 'string' ? new AuthError(error) : error
+  const locale = localeFromAcceptLanguage(requestHeaders.get('accept-language'))
+  return NextResponse.json(authError.toBody(locale), { ...init, status: authError.status })
+}
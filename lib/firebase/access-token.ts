@@ -0,0 +1,46 @@
+// lib/firebase/access-token.ts
+// Personal access token model shared by the server, the edge middleware and the
+// tokens page. Tokens are long-lived Bearer credentials for scripts and
+// integrations; only their hash is stored, in `accessTokens/{hash}`.
+
+export const ACCESS_TOKEN_PREFIX = 'pat_'
+
+// What a token may be used for; each route handler names the scope it needs
+export const ACCESS_TOKEN_SCOPES = ['user:read', 'admin:roles', 'admin:audit'] as const
+
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number]
+
+export const ACCESS_TOKEN_SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  'user:read': 'Read your account details',
+  'admin:roles': 'Change user roles (admins only)',
+  'admin:audit': 'Export the audit log (admins only)',
+}
+
+// Lifetimes offered when creating a token; null never expires
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365, null] as const
+
+export type AccessTokenExpiryDays = (typeof ACCESS_TOKEN_EXPIRY_DAYS)[number]
+
+export const MAX_ACCESS_TOKEN_NAME_LENGTH = 100
+
+export interface AccessTokenRecord {
+  id: string
+  uid: string
+  name: string
+  scopes: AccessTokenScope[]
+  // Last characters of the token, so users can tell their tokens apart
+  hint: string
+  createdAt: Date
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+}
+
+export function isAccessTokenScope(value: unknown): value is AccessTokenScope {
+  return typeof value === 'string' && (ACCESS_TOKEN_SCOPES as readonly string[]).includes(value)
+}
+
+// Cheap format check, safe on the edge; the token still has to be looked up
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX)
+}
@@ -0,0 +1,123 @@
+// lib/firebase/access-tokens.ts
+import 'server-only'
+
+import { createHash, randomBytes } from 'crypto'
+import { adminDb } from './admin'
+import {
+  ACCESS_TOKEN_PREFIX,
+  isAccessToken,
+  isAccessTokenScope,
+  type AccessTokenRecord,
+  type AccessTokenScope,
+} from './access-token'
+
+// Records are keyed by the token's hash; the token itself is shown once on
+// creation and never stored.
+const accessTokensCollection = () => adminDb.collection('accessTokens')
+
+// Only bump lastUsedAt this often to keep Firestore writes down
+const LAST_USED_INTERVAL_MS = 5 * 60 * 1000
+
+function accessTokenIdFor(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function recordFromData(id: string, data: FirebaseFirestore.DocumentData): AccessTokenRecord {
+  return {
+    id,
+    uid: data.uid,
+    name: data.name,
+    scopes: Array.isArray(data.scopes) ? data.scopes.filter(isAccessTokenScope) : [],
+    hint: data.hint,
+    createdAt: data.createdAt.toDate(),
+    expiresAt: data.expiresAt?.toDate() ?? null,
+    lastUsedAt: data.lastUsedAt?.toDate() ?? null,
+    revokedAt: data.revokedAt?.toDate() ?? null,
+  }
+}
+
+function isActive(record: AccessTokenRecord, now = Date.now()): boolean {
+  return !record.revokedAt && (!record.expiresAt || record.expiresAt.getTime() > now)
+}
+
+// Create a token for the user; the returned token is the only copy
+export async function createAccessToken(
+  uid: string,
+  details: { name: string; scopes: AccessTokenScope[]; expiresAt: Date | null }
+): Promise<{ token: string; record: AccessTokenRecord }> {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  const id = accessTokenIdFor(token)
+  const data = {
+    uid,
+    ...details,
+    hint: token.slice(-4),
+    createdAt: new Date(),
+    lastUsedAt: null,
+    revokedAt: null,
+  }
+
+  await accessTokensCollection().doc(id).set(data)
+  return { token, record: { id, ...data } }
+}
+
+// The active record behind a presented token, or null if it is unknown,
+// revoked or expired
+export async function verifyAccessToken(token: string): Promise<AccessTokenRecord | null> {
+  if (!isAccessToken(token)) {
+    return null
+  }
+
+  const ref = accessTokensCollection().doc(accessTokenIdFor(token))
+  const snapshot = await ref.get()
+
+  if (!snapshot.exists) {
+    return null
+  }
+
+  const record = recordFromData(snapshot.id, snapshot.data()!)
+  if (!isActive(record)) {
+    return null
+  }
+
+  if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+    ref.update({ lastUsedAt: new Date() }).catch((error) => {
+      console.error('Access token lastUsedAt update failed:', error)
+    })
+  }
+
+  return record
+}
+
+export async function listAccessTokens(uid: string): Promise<AccessTokenRecord[]> {
+  const snapshot = await accessTokensCollection().where('uid', '==', uid).get()
+  const now = Date.now()
+
+  return snapshot.docs
+    .map((doc) => recordFromData(doc.id, doc.data()))
+    .filter((record) => isActive(record, now))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+// Revoke one of the user's tokens; returns false if it is not theirs
+export async function revokeAccessToken(uid: string, tokenId: string): Promise<boolean> {
+  const ref = accessTokensCollection().doc(tokenId)
+  const snapshot = await ref.get()
+
+  if (!snapshot.exists || snapshot.get('uid') !== uid) {
+    return false
+  }
+
+  await ref.update({ revokedAt: new Date() })
+  return true
+}
+
+export async function revokeAllAccessTokens(uid: string) {
+  const snapshot = await accessTokensCollection()
+    .where('uid', '==', uid)
+    .where('revokedAt', '==', null)
+    .get()
+
+  const batch = adminDb.batch()
+  snapshot.docs.forEach((doc) => batch.update(doc.ref, { revokedAt: new Date() }))
+  await batch.commit()
+}
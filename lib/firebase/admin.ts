@@ -1,31 +1,51 @@
 // lib/firebase/admin.ts
 import 'server-only' // Prevents accidental client-side import
 
-import { initializeApp, getApps, cert, App } from 'firebase-admin/app'
+import { initializeApp, getApps, cert, App, AppOptions } from 'firebase-admin/app'
 import { getAuth, Auth } from 'firebase-admin/auth'
+import { getFirestore, FieldValue, Firestore } from 'firebase-admin/firestore'
+import { recordAuditEvent } from '@/lib/audit/log'
+import type { Role } from '@/types/auth'
 
-const firebaseAdminConfig = {
-  credential: cert({
-    projectId: process.env.FIREBASE_PROJECT_ID!,
-    clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
-    privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
-  }),
+// The Admin SDK talks to the emulators when FIREBASE_AUTH_EMULATOR_HOST (and
+// FIRESTORE_EMULATOR_HOST) are set; no service account is needed then.
+const emulatorMode = Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST)
+
+function adminAppOptions(): AppOptions {
+  const projectId = process.env.FIREBASE_PROJECT_ID ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+
+  if (emulatorMode) {
+    return { projectId }
+  }
+
+  const { FIREBASE_CLIENT_EMAIL: clientEmail, FIREBASE_PRIVATE_KEY: privateKey } = process.env
+  if (!projectId || !clientEmail || !privateKey) {
+    throw new Error(
+      'Missing Firebase Admin credentials: set FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL and ' +
+        'FIREBASE_PRIVATE_KEY, or FIREBASE_AUTH_EMULATOR_HOST to use the emulator'
+    )
+  }
+
+  return {
+    credential: cert({ projectId, clientEmail, privateKey: privateKey.replace(/\\n/g, '\n') }),
+  }
 }
 
 function initFirebaseAdmin(): App {
   if (getApps().length === 0) {
-    return initializeApp(firebaseAdminConfig)
+    return initializeApp(adminAppOptions())
   }
   return getApps()[0]
 }
 
 export const adminApp = initFirebaseAdmin()
 export const adminAuth: Auth = getAuth(adminApp)
+export const adminDb: Firestore = getFirestore(adminApp)
 
-// Token verification helper
-export async function verifyIdToken(idToken: string) {
+// Token verification helper (rejects tokens issued before a revocation)
+export async function verifyIdToken(idToken: string, checkRevoked = true) {
   try {
-    return await adminAuth.verifyIdToken(idToken)
+    return await adminAuth.verifyIdToken(idToken, checkRevoked)
   } catch (error) {
     console.error('Token verification failed:', error)
     return null
@@ -39,5 +59,43 @@ export async function createSessionCookie(idToken: string, expiresIn: number) {
 
 // Session cookie verification
 export async function verifySessionCookie(sessionCookie: string, checkRevoked = true) {
-  return adminAuth.verifySessionCookie(sessionCookie, checkRevoked)
+  try {
+    return await adminAuth.verifySessionCookie(sessionCookie, checkRevoked)
+  } catch (error) {
+    console.error('Session cookie verification failed:', error)
+    return null
+  }
+}
+
+// Audit a rejected credential that Firebase itself issued (revoked, or its
+// session ended), so the event belongs to a user. Forged and expired ones are
+// not recorded: anyone can send those, and each event is a Firestore write.
+export async function recordRejectedCredential(
+  credential: string,
+  kind: 'id-token' | 'session-cookie'
+) {
+  const decodedToken = await (
+    kind === 'session-cookie'
+      ? adminAuth.verifySessionCookie(credential, false)
+      : adminAuth.verifyIdToken(credential, false)
+  ).catch(() => null)
+
+  if (decodedToken) {
+    await recordAuditEvent({
+      type: 'token-verification-failed',
+      uid: decodedToken.uid,
+      details: { credential: kind },
+    })
+  }
+}
+
+// Replace a user's roles, keeping any other custom claims. The metadata write
+// tells signed-in clients to refresh their ID token and pick up the change.
+export async function setUserRoles(uid: string, roles: Role[]) {
+  const { customClaims } = await adminAuth.getUser(uid)
+  await adminAuth.setCustomUserClaims(uid, { ...customClaims, roles })
+  await adminDb
+    .collection('userClaims')
+    .doc(uid)
+    .set({ rolesUpdatedAt: FieldValue.serverTimestamp() }, { merge: true })
 }
@@ -4,67 +4,156 @@
 import {
   signInWithPopup,
   signInWithRedirect,
+  signInAnonymously,
+  signInWithCredential,
+  signInWithCustomToken,
   getRedirectResult,
   GoogleAuthProvider,
   GithubAuthProvider,
   TwitterAuthProvider,
+  OAuthProvider,
+  SAMLAuthProvider,
+  EmailAuthProvider,
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  sendSignInLinkToEmail,
+  isSignInWithEmailLink,
+  signInWithEmailLink,
+  sendPasswordResetEmail,
+  sendEmailVerification,
+  updateProfile,
+  fetchSignInMethodsForEmail,
+  linkWithCredential,
+  linkWithPopup,
+  reauthenticateWithPopup,
+  unlink,
   signOut as firebaseSignOut,
   onIdTokenChanged,
+  type AuthCredential,
+  type OAuthCredential,
   type User,
   type UserCredential,
 } from 'firebase/auth'
-import { auth } from './config'
-
-// Provider configurations
-const googleProvider = new GoogleAuthProvider()
-googleProvider.addScope('https://www.googleapis.com/auth/userinfo.email')
-googleProvider.setCustomParameters({ prompt: 'select_account' })
-
-const githubProvider = new GithubAuthProvider()
-githubProvider.addScope('user:email')
-
-const twitterProvider = new TwitterAuthProvider()
-
-type AuthProvider = 'google' | 'github' | 'twitter'
-
-const providers = {
-  google: {
-    provider: googleProvider,
-    credentialFromResult: GoogleAuthProvider.credentialFromResult,
-    credentialFromError: GoogleAuthProvider.credentialFromError,
-  },
-  github: {
-    provider: githubProvider,
-    credentialFromResult: GithubAuthProvider.credentialFromResult,
-    credentialFromError: GithubAuthProvider.credentialFromError,
-  },
-  twitter: {
-    provider: twitterProvider,
-    credentialFromResult: TwitterAuthProvider.credentialFromResult,
-    credentialFromError: TwitterAuthProvider.credentialFromError,
-  },
+import { FirebaseError } from 'firebase/app'
+import { doc, onSnapshot } from 'firebase/firestore'
+import { auth, db } from './config'
+import { profileFromData } from './profile'
+import { getProviderConfig } from './providers'
+import type { AuthProvider, UserProfile } from '@/types/auth'
+
+type FederatedProvider =
+  | GoogleAuthProvider
+  | GithubAuthProvider
+  | TwitterAuthProvider
+  | OAuthProvider
+  | SAMLAuthProvider
+
+// Firebase provider instances, built from the registry on first use
+const providerInstances = new Map<string, FederatedProvider>()
+
+function providerFor(providerName: AuthProvider): FederatedProvider {
+  const cached = providerInstances.get(providerName)
+  if (cached) {
+    return cached
+  }
+
+  const provider = createProvider(providerName)
+  providerInstances.set(providerName, provider)
+  return provider
 }
 
-// Popup-based sign-in
-export async function signInWithProvider(providerName: AuthProvider): Promise<UserCredential> {
-  const { provider } = providers[providerName]
+function createProvider(providerName: AuthProvider, extraScopes: string[] = []): FederatedProvider {
+  const config = getProviderConfig(providerName)
+  let provider: FederatedProvider
+
+  switch (config.kind) {
+    case 'google':
+      provider = new GoogleAuthProvider()
+      break
+    case 'github':
+      provider = new GithubAuthProvider()
+      break
+    case 'twitter':
+      provider = new TwitterAuthProvider()
+      break
+    case 'oauth':
+      provider = new OAuthProvider(config.providerId)
+      break
+    case 'saml':
+      provider = new SAMLAuthProvider(config.providerId)
+      break
+  }
+
+  // SAML providers take no scopes
+  if (!(provider instanceof SAMLAuthProvider)) {
+    const oauthProvider = provider
+    const scopes = [...(config.scopes ?? []), ...extraScopes]
+    scopes.forEach((scope) => oauthProvider.addScope(scope))
+  }
+  // Google only grants new scopes on top of earlier ones when asked to
+  const incremental = extraScopes.length > 0 && config.kind === 'google'
+  if (config.customParameters || incremental) {
+    provider.setCustomParameters({
+      ...config.customParameters,
+      ...(incremental && { include_granted_scopes: 'true' }),
+    })
+  }
 
+  return provider
+}
+
+// Credential carried by an error from this provider, for linking
+function credentialFromError(providerName: AuthProvider, error: FirebaseError): AuthCredential | null {
+  switch (getProviderConfig(providerName).kind) {
+    case 'google':
+      return GoogleAuthProvider.credentialFromError(error)
+    case 'github':
+      return GithubAuthProvider.credentialFromError(error)
+    case 'twitter':
+      return TwitterAuthProvider.credentialFromError(error)
+    case 'oauth':
+      return OAuthProvider.credentialFromError(error)
+    case 'saml':
+      return SAMLAuthProvider.credentialFromError(error)
+  }
+}
+
+const REDIRECT_RETURN_TO_KEY = 'authReturnTo'
+
+// Popup-based sign-in
+export async function signInWithProvider(
+  providerName: AuthProvider,
+  returnTo?: string
+): Promise<UserCredential> {
   try {
-    const result = await signInWithPopup(auth, provider)
+    const result = await signInWithPopup(auth, providerFor(providerName))
     return result
-  } catch (error: any) {
-    if (error.code === 'auth/popup-blocked') {
-      // Fallback to redirect
-      signInWithRedirect(auth, provider)
+  } catch (error) {
+    if (error instanceof FirebaseError && error.code === 'auth/popup-blocked') {
+      // Fallback to redirect; a failure to start it replaces the popup error
+      await signInWithProviderRedirect(providerName, returnTo)
     }
     throw error
   }
 }
 
-// Redirect-based sign-in (better for mobile)
-export function signInWithProviderRedirect(providerName: AuthProvider): void {
-  const { provider } = providers[providerName]
-  signInWithRedirect(auth, provider)
+// Redirect-based sign-in (better for mobile). The destination survives the
+// round trip in sessionStorage; see takeRedirectReturnTo.
+export async function signInWithProviderRedirect(
+  providerName: AuthProvider,
+  returnTo?: string
+): Promise<void> {
+  if (returnTo) {
+    window.sessionStorage.setItem(REDIRECT_RETURN_TO_KEY, returnTo)
+  }
+  await signInWithRedirect(auth, providerFor(providerName))
+}
+
+// Destination saved before a redirect sign-in (read once)
+export function takeRedirectReturnTo(): string | null {
+  const returnTo = window.sessionStorage.getItem(REDIRECT_RETURN_TO_KEY)
+  window.sessionStorage.removeItem(REDIRECT_RETURN_TO_KEY)
+  return returnTo
 }
 
 // Handle redirect result (call on page load)
@@ -77,6 +166,215 @@ export async function handleRedirectResult(): Promise<UserCredential | null> {
   }
 }
 
+const EMAIL_FOR_SIGN_IN_KEY = 'emailForSignIn'
+
+// Links in auth emails continue back to this app
+function actionCodeSettings(path: string, handleCodeInApp = false) {
+  return { url: `${window.location.origin}${path}`, handleCodeInApp }
+}
+
+// Name the new account and send the verification email
+async function finishEmailSignUp(result: UserCredential, displayName?: string) {
+  if (displayName) {
+    await updateProfile(result.user, { displayName })
+  }
+
+  await sendEmailVerification(result.user, actionCodeSettings('/dashboard'))
+  return result
+}
+
+// Email/password sign-up (sends a verification email)
+export async function signUpWithEmail(
+  email: string,
+  password: string,
+  displayName?: string
+): Promise<UserCredential> {
+  const result = await createUserWithEmailAndPassword(auth, email, password)
+  return finishEmailSignUp(result, displayName)
+}
+
+// Email/password sign-up for a guest: the password is linked to the anonymous
+// user, so the uid and its data carry over
+export async function linkEmailPassword(
+  guest: User,
+  email: string,
+  password: string,
+  displayName?: string
+): Promise<UserCredential> {
+  const result = await linkWithCredential(guest, EmailAuthProvider.credential(email, password))
+  return finishEmailSignUp(result, displayName)
+}
+
+// Anonymous guest sign-in; providers linked later keep the same uid
+export async function signInAsGuest(): Promise<UserCredential> {
+  return signInAnonymously(auth)
+}
+
+// Sign in with a custom token minted by the server, e.g. to impersonate a user
+export async function signInWithToken(token: string): Promise<UserCredential> {
+  return signInWithCustomToken(auth, token)
+}
+
+// Email/password sign-in
+export async function signInWithEmail(email: string, password: string): Promise<UserCredential> {
+  return signInWithEmailAndPassword(auth, email, password)
+}
+
+// Passwordless sign-in: email a magic link back to /login/email-link
+export async function sendSignInLink(email: string): Promise<void> {
+  await sendSignInLinkToEmail(auth, email, actionCodeSettings('/login/email-link', true))
+  window.localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email)
+}
+
+export function isEmailSignInLink(url: string): boolean {
+  return isSignInWithEmailLink(auth, url)
+}
+
+// Email saved when the link was requested (missing if opened on another device)
+export function getStoredSignInEmail(): string | null {
+  return window.localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY)
+}
+
+export async function completeEmailLinkSignIn(email: string, url: string): Promise<UserCredential> {
+  const result = await signInWithEmailLink(auth, email, url)
+  window.localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY)
+  return result
+}
+
+// Password reset email
+export async function sendPasswordReset(email: string): Promise<void> {
+  return sendPasswordResetEmail(auth, email, actionCodeSettings('/login'))
+}
+
+// (Re)send the verification email to the signed-in user
+export async function sendVerificationEmail(user: User): Promise<void> {
+  return sendEmailVerification(user, actionCodeSettings('/dashboard'))
+}
+
+// Credential from a sign-in attempt that collided with an existing account
+export interface PendingLink {
+  email: string
+  credential: AuthCredential
+  providerName: AuthProvider
+  // Methods already registered for the email, e.g. 'google.com' or 'password'.
+  // Empty when email enumeration protection is enabled on the project.
+  signInMethods: string[]
+}
+
+// Capture the pending credential from auth/account-exists-with-different-credential
+export async function getPendingLink(
+  providerName: AuthProvider,
+  error: unknown
+): Promise<PendingLink | null> {
+  if (
+    !(error instanceof FirebaseError) ||
+    error.code !== 'auth/account-exists-with-different-credential'
+  ) {
+    return null
+  }
+
+  const credential = credentialFromError(providerName, error)
+  const email = error.customData?.email
+
+  if (!credential || typeof email !== 'string') {
+    return null
+  }
+
+  const signInMethods = await fetchSignInMethodsForEmail(auth, email).catch(() => [])
+  return { email, credential, providerName, signInMethods }
+}
+
+// Credential from linking a provider that already belongs to another account,
+// so a guest can sign in to that account instead
+export function getLinkConflictCredential(
+  providerName: AuthProvider,
+  error: unknown
+): AuthCredential | null {
+  if (
+    !(error instanceof FirebaseError) ||
+    (error.code !== 'auth/credential-already-in-use' && error.code !== 'auth/email-already-in-use')
+  ) {
+    return null
+  }
+  return credentialFromError(providerName, error)
+}
+
+export async function signInWithConflictCredential(credential: AuthCredential): Promise<UserCredential> {
+  return signInWithCredential(auth, credential)
+}
+
+// Attach the pending credential once the user has signed in with their existing method
+export async function linkPendingCredential(user: User, pending: PendingLink): Promise<UserCredential> {
+  return linkWithCredential(user, pending.credential)
+}
+
+// Connect another provider to the signed-in account
+export async function linkProvider(user: User, providerName: AuthProvider): Promise<UserCredential> {
+  return linkWithPopup(user, providerFor(providerName))
+}
+
+// Provider OAuth access token captured from a sign-in, link or consent popup
+export interface ProviderAccessToken {
+  providerId: string
+  accessToken: string
+  // Scopes that were requested; providers grant them or fail the popup
+  scopes: string[]
+}
+
+// The provider's access token from a popup or redirect result. Twitter's
+// OAuth 1.0a tokens are unusable without the secret, and SAML has none.
+export function providerAccessTokenFromResult(
+  providerName: AuthProvider,
+  result: UserCredential,
+  extraScopes: string[] = []
+): ProviderAccessToken | null {
+  const config = getProviderConfig(providerName)
+  let credential: OAuthCredential | null
+
+  switch (config.kind) {
+    case 'google':
+      credential = GoogleAuthProvider.credentialFromResult(result)
+      break
+    case 'github':
+      credential = GithubAuthProvider.credentialFromResult(result)
+      break
+    case 'oauth':
+      credential = OAuthProvider.credentialFromResult(result)
+      break
+    case 'twitter':
+    case 'saml':
+      return null
+  }
+
+  if (!credential?.accessToken) {
+    return null
+  }
+  return {
+    providerId: config.providerId,
+    accessToken: credential.accessToken,
+    scopes: [...(config.scopes ?? []), ...extraScopes],
+  }
+}
+
+// Consent again to a provider, optionally for more scopes: re-authenticates
+// when it is already connected, links it otherwise
+export async function authorizeProvider(
+  user: User,
+  providerName: AuthProvider,
+  extraScopes: string[] = []
+): Promise<UserCredential> {
+  const provider = createProvider(providerName, extraScopes)
+  const { providerId } = getProviderConfig(providerName)
+
+  return user.providerData.some((info) => info.providerId === providerId)
+    ? reauthenticateWithPopup(user, provider)
+    : linkWithPopup(user, provider)
+}
+
+export async function unlinkProvider(user: User, providerName: AuthProvider): Promise<User> {
+  return unlink(user, getProviderConfig(providerName).providerId)
+}
+
 // Sign out
 export async function signOut(): Promise<void> {
   return firebaseSignOut(auth)
@@ -86,3 +384,21 @@ export async function signOut(): Promise<void> {
 export function onAuthStateChange(callback: (user: User | null) => void) {
   return onIdTokenChanged(auth, callback)
 }
+
+// Fires when the server changes this user's roles (see setUserRoles in admin.ts)
+export function onRolesChanged(uid: string, callback: (updatedAt: Date | null) => void) {
+  return onSnapshot(
+    doc(db, 'userClaims', uid),
+    (snapshot) => callback(snapshot.get('rolesUpdatedAt')?.toDate() ?? null),
+    (error) => console.error('Role listener error:', error)
+  )
+}
+
+// Live updates of the user's `users/{uid}` profile document
+export function onProfileChanged(uid: string, callback: (profile: UserProfile | null) => void) {
+  return onSnapshot(
+    doc(db, 'users', uid),
+    (snapshot) => callback(snapshot.exists() ? profileFromData(uid, snapshot.data()) : null),
+    (error) => console.error('Profile listener error:', error)
+  )
+}
@@ -1,7 +1,7 @@
 // lib/firebase/config.ts
 import { initializeApp, getApps, getApp } from 'firebase/app'
-import { getAuth } from 'firebase/auth'
-import { getFirestore } from 'firebase/firestore'
+import { connectAuthEmulator, getAuth } from 'firebase/auth'
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore'
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -17,4 +17,20 @@ const app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig)
 const auth = getAuth(app)
 const db = getFirestore(app)
 
+// Local development and tests against the Firebase Emulator Suite (see SETUP.md).
+// The flag survives hot reloads, which would otherwise connect twice.
+const emulatorMode = process.env.NEXT_PUBLIC_FIREBASE_USE_EMULATORS === 'true'
+const globalForEmulators = globalThis as typeof globalThis & { firebaseEmulatorsConnected?: boolean }
+
+if (emulatorMode && !globalForEmulators.firebaseEmulatorsConnected) {
+  const authHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST ?? '127.0.0.1:9099'
+  const [firestoreHost, firestorePort] = (
+    process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST ?? '127.0.0.1:8080'
+  ).split(':')
+
+  connectAuthEmulator(auth, `http://${authHost}`, { disableWarnings: true })
+  connectFirestoreEmulator(db, firestoreHost, Number(firestorePort))
+  globalForEmulators.firebaseEmulatorsConnected = true
+}
+
 export { app, auth, db, firebaseConfig }
@@ -0,0 +1,256 @@
+// lib/firebase/guards.ts
+import 'server-only'
+
+import { cache } from 'react'
+import { cookies, headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { AuthError } from '@/lib/errors/auth-error'
+import { isAccessToken, type AccessTokenRecord, type AccessTokenScope } from './access-token'
+import { verifyAccessToken } from './access-tokens'
+import { adminAuth, verifyIdToken } from './admin'
+import { isGuestToken } from './guest'
+import { impersonatorFromClaims } from './impersonation'
+import { hasRole, rolesFromClaims } from './roles'
+import { SESSION_COOKIE_NAME } from './session'
+import { verifySession } from './sessions'
+import { REQUEST_PATH_HEADER, loginUrl } from '@/utils/redirects'
+import type { CurrentUser, DecodedIdToken, Role } from '@/types/auth'
+
+// Reasons an authenticated request is refused, returned to clients as the
+// `code` of 401/403 responses
+export type AuthorizationErrorCode =
+  | 'unauthenticated'
+  | 'account-required'
+  | 'recent-login-required'
+  | 'forbidden'
+  | 'email-not-verified'
+  | 'mfa-required'
+  | 'insufficient-scope'
+  | 'impersonation-restricted'
+
+export class AuthorizationError extends AuthError<AuthorizationErrorCode> {
+  constructor(code: AuthorizationErrorCode) {
+    super(code)
+    this.name = 'AuthorizationError'
+  }
+}
+
+export interface AuthRequirements {
+  // Any of these roles (admins always pass); read fresh from the user record
+  roles?: Role[]
+  emailVerified?: boolean
+  // Maximum seconds since the user last signed in, for sensitive operations
+  maxAuthAge?: number
+  mfa?: boolean
+  // Accept anonymous guest sessions
+  allowGuests?: boolean
+  // Refuse impersonated sessions: support staff may look around as the user,
+  // but not change their credentials or security settings
+  sensitive?: boolean
+  // Accept personal access tokens granted this scope. Routes without one are
+  // closed to access tokens; sessions and ID tokens are not limited by scope.
+  scope?: AccessTokenScope
+}
+
+// The verified caller handed to route handlers and server actions
+export interface AuthenticatedUser {
+  uid: string
+  email: string | null
+  emailVerified: boolean
+  isGuest: boolean
+  roles: Role[]
+  secondFactor: string | null
+  authTime: Date
+  // UID of the admin impersonating the user, if any
+  impersonatedBy: string | null
+  // The verified session or ID token; null when a personal access token was used
+  token: DecodedIdToken | null
+  accessToken: AccessTokenRecord | null
+}
+
+// Verify the session cookie, or a Bearer ID token for API clients.
+// Works in server components, route handlers and server actions.
+export async function getCurrentToken(): Promise<DecodedIdToken | null> {
+  const cookieStore = await cookies()
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value
+
+  if (sessionCookie) {
+    return verifySession(sessionCookie)
+  }
+
+  const idToken = await getBearerToken()
+
+  return idToken ? verifyIdToken(idToken) : null
+}
+
+async function getBearerToken(): Promise<string | null> {
+  const authHeader = (await headers()).get('Authorization')
+  return authHeader?.split('Bearer ')[1] ?? null
+}
+
+// The signed-in user for server components, e.g. to pass to AuthProvider so the
+// first paint does not wait for Firebase. Cached for the duration of a request.
+export const getCurrentUser = cache(async (): Promise<CurrentUser | null> => {
+  const decodedToken = await getCurrentToken()
+  const userRecord = decodedToken
+    ? await adminAuth.getUser(decodedToken.uid).catch(() => null)
+    : null
+
+  if (!decodedToken || !userRecord) {
+    return null
+  }
+
+  return {
+    uid: userRecord.uid,
+    email: userRecord.email ?? null,
+    displayName: userRecord.displayName ?? null,
+    photoURL: userRecord.photoURL ?? null,
+    emailVerified: userRecord.emailVerified,
+    isGuest: isGuestToken(decodedToken),
+    // From the token, like the client, so the two agree
+    roles: rolesFromClaims(decodedToken),
+    impersonatedBy: impersonatorFromClaims(decodedToken),
+    creationTime: userRecord.metadata.creationTime ?? null,
+    lastSignInTime: userRecord.metadata.lastSignInTime ?? null,
+  }
+})
+
+// Second factor used for this session ('totp' or 'phone'), or null without MFA
+export function getSecondFactor(decodedToken: DecodedIdToken): string | null {
+  return decodedToken.firebase?.sign_in_second_factor ?? null
+}
+
+// Verify the caller and check the given requirements, throwing an
+// AuthorizationError with the reason when one is not met
+export async function authenticate(requirements: AuthRequirements = {}): Promise<AuthenticatedUser> {
+  // The session cookie wins when a browser sends both, as in getCurrentToken
+  const bearerToken = await getBearerToken()
+  if (bearerToken && isAccessToken(bearerToken) && !(await cookies()).get(SESSION_COOKIE_NAME)) {
+    return authenticateAccessToken(bearerToken, requirements)
+  }
+
+  const decodedToken = await getCurrentToken()
+
+  if (!decodedToken) {
+    throw new AuthorizationError('unauthenticated')
+  }
+
+  const { roles = [], emailVerified, maxAuthAge, mfa, allowGuests, sensitive } = requirements
+  const impersonatedBy = impersonatorFromClaims(decodedToken)
+
+  if (!allowGuests && isGuestToken(decodedToken)) {
+    throw new AuthorizationError('account-required')
+  }
+
+  if (sensitive && impersonatedBy) {
+    throw new AuthorizationError('impersonation-restricted')
+  }
+
+  if (maxAuthAge !== undefined && Date.now() / 1000 - decodedToken.auth_time > maxAuthAge) {
+    throw new AuthorizationError('recent-login-required')
+  }
+
+  if (emailVerified && !decodedToken.email_verified) {
+    throw new AuthorizationError('email-not-verified')
+  }
+
+  if (mfa && !getSecondFactor(decodedToken)) {
+    throw new AuthorizationError('mfa-required')
+  }
+
+  // Roles are read from the user record rather than the token so that changes
+  // apply immediately, even to session cookies minted before the change.
+  let userRoles = rolesFromClaims(decodedToken)
+  if (roles.length > 0) {
+    const { customClaims } = await adminAuth.getUser(decodedToken.uid)
+    userRoles = rolesFromClaims(customClaims)
+
+    if (!hasRole(userRoles, ...roles)) {
+      throw new AuthorizationError('forbidden')
+    }
+  }
+
+  return {
+    uid: decodedToken.uid,
+    email: decodedToken.email ?? null,
+    emailVerified: decodedToken.email_verified ?? false,
+    isGuest: isGuestToken(decodedToken),
+    roles: userRoles,
+    secondFactor: getSecondFactor(decodedToken),
+    authTime: new Date(decodedToken.auth_time * 1000),
+    impersonatedBy,
+    token: decodedToken,
+    accessToken: null,
+  }
+}
+
+// Personal access tokens stand in for the user without a sign-in, so they
+// cannot meet the recent-login or second-factor requirements
+async function authenticateAccessToken(
+  token: string,
+  { roles = [], emailVerified, maxAuthAge, mfa, scope }: AuthRequirements
+): Promise<AuthenticatedUser> {
+  const accessToken = await verifyAccessToken(token)
+  const userRecord = accessToken ? await adminAuth.getUser(accessToken.uid).catch(() => null) : null
+
+  if (!accessToken || !userRecord || userRecord.disabled) {
+    throw new AuthorizationError('unauthenticated')
+  }
+
+  if (!scope || !accessToken.scopes.includes(scope)) {
+    throw new AuthorizationError('insufficient-scope')
+  }
+
+  if (maxAuthAge !== undefined) {
+    throw new AuthorizationError('recent-login-required')
+  }
+
+  if (emailVerified && !userRecord.emailVerified) {
+    throw new AuthorizationError('email-not-verified')
+  }
+
+  if (mfa) {
+    throw new AuthorizationError('mfa-required')
+  }
+
+  const userRoles = rolesFromClaims(userRecord.customClaims)
+  if (roles.length > 0 && !hasRole(userRoles, ...roles)) {
+    throw new AuthorizationError('forbidden')
+  }
+
+  return {
+    uid: userRecord.uid,
+    email: userRecord.email ?? null,
+    emailVerified: userRecord.emailVerified,
+    isGuest: false,
+    roles: userRoles,
+    secondFactor: null,
+    authTime: accessToken.createdAt,
+    impersonatedBy: null,
+    token: null,
+    accessToken,
+  }
+}
+
+// Require a session that was verified with a second factor
+export function requireMfa(): Promise<AuthenticatedUser> {
+  return authenticate({ mfa: true })
+}
+
+// Require a verified user holding any of the given roles (admins always pass)
+export function requireRole(...roles: Role[]): Promise<AuthenticatedUser> {
+  return authenticate({ roles })
+}
+
+// Layout/page variant: send unauthenticated users to /login and others to /forbidden
+export async function requireRoleOrRedirect(...roles: Role[]) {
+  try {
+    return await requireRole(...roles)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      const returnTo = (await headers()).get(REQUEST_PATH_HEADER)
+      redirect(error.status === 401 ? loginUrl(returnTo) : '/forbidden')
+    }
+    throw error
+  }
+}
@@ -0,0 +1,16 @@
+// lib/firebase/guest.ts
+// Anonymous guest sessions. Shared by the middleware, server and client.
+
+interface GuestTokenClaims {
+  firebase?: {
+    sign_in_provider?: string
+    identities?: Record<string, unknown>
+  }
+}
+
+// Anonymous users have no linked identities; once a provider is linked the
+// same uid becomes a permanent account
+export function isGuestToken(token: GuestTokenClaims): boolean {
+  const { sign_in_provider, identities = {} } = token.firebase ?? {}
+  return sign_in_provider === 'anonymous' && Object.keys(identities).length === 0
+}
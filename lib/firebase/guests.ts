@@ -0,0 +1,42 @@
+// lib/firebase/guests.ts
+import 'server-only'
+
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminAuth, adminDb } from './admin'
+
+// Moves one kind of guest-owned data to the permanent account
+export type GuestDataMerger = (guestUid: string, uid: string) => Promise<void>
+
+// Fill profile fields the account has not set from the guest's profile
+async function mergeGuestProfile(guestUid: string, uid: string) {
+  const users = adminDb.collection('users')
+  const [guest, account] = await Promise.all([users.doc(guestUid).get(), users.doc(uid).get()])
+
+  if (!guest.exists) {
+    return
+  }
+
+  const update = Object.fromEntries(
+    ['displayName', 'photoURL', 'timezone']
+      .filter((field) => guest.get(field) && !account.get(field))
+      .map((field) => [field, guest.get(field)])
+  )
+
+  if (Object.keys(update).length > 0) {
+    await users.doc(uid).set({ ...update, updatedAt: FieldValue.serverTimestamp() }, { merge: true })
+  }
+}
+
+// Add a merger for each collection of product data keyed by the user's uid
+const guestDataMergers: GuestDataMerger[] = [mergeGuestProfile]
+
+// A guest signed in to an existing account: carry their data over, then
+// delete the anonymous user and its profile
+export async function mergeGuestAccount(guestUid: string, uid: string) {
+  for (const merge of guestDataMergers) {
+    await merge(guestUid, uid)
+  }
+
+  await adminDb.collection('users').doc(guestUid).delete()
+  await adminAuth.deleteUser(guestUid)
+}
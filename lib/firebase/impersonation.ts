@@ -0,0 +1,19 @@
+// lib/firebase/impersonation.ts
+// Support-staff impersonation. Shared by the server and the client.
+import type { DecodedIdToken } from '@/types/auth'
+
+// While an admin impersonates a user, their own session cookie is set aside
+// here so stopping can restore it
+export const IMPERSONATOR_COOKIE_NAME = '__impersonator'
+
+// Impersonated sessions end after an hour; the admin's own session is unaffected
+export const IMPERSONATION_EXPIRES_IN_MS = 60 * 60 * 1000
+
+// UID of the admin behind an impersonated session, read from the `impersonatedBy`
+// claim of its custom token; null for the user's own sign-in
+export function impersonatorFromClaims(
+  claims: DecodedIdToken | Record<string, unknown> | undefined
+): string | null {
+  const impersonatedBy = claims?.impersonatedBy
+  return typeof impersonatedBy === 'string' ? impersonatedBy : null
+}
@@ -0,0 +1,112 @@
+// lib/firebase/mfa.ts
+'use client'
+
+import {
+  getMultiFactorResolver,
+  multiFactor,
+  PhoneAuthProvider,
+  PhoneMultiFactorGenerator,
+  RecaptchaVerifier,
+  TotpMultiFactorGenerator,
+  type MultiFactorError,
+  type MultiFactorInfo,
+  type MultiFactorResolver,
+  type PhoneMultiFactorInfo,
+  type TotpSecret,
+  type User,
+  type UserCredential,
+} from 'firebase/auth'
+import { FirebaseError } from 'firebase/app'
+import { auth } from './config'
+
+const TOTP_ISSUER = 'Firebase Auth'
+
+export function getEnrolledFactors(user: User): MultiFactorInfo[] {
+  return multiFactor(user).enrolledFactors
+}
+
+export function isPhoneFactor(factor: MultiFactorInfo): factor is PhoneMultiFactorInfo {
+  return factor.factorId === PhoneMultiFactorGenerator.FACTOR_ID
+}
+
+// SMS flows need an (invisible) reCAPTCHA rendered into the given element
+export function createRecaptchaVerifier(containerId: string): RecaptchaVerifier {
+  return new RecaptchaVerifier(auth, containerId, { size: 'invisible' })
+}
+
+// TOTP enrollment: generate a secret, show it as a QR code, then confirm a code
+export async function startTotpEnrollment(user: User) {
+  const session = await multiFactor(user).getSession()
+  const secret = await TotpMultiFactorGenerator.generateSecret(session)
+  return { secret, qrCodeUrl: secret.generateQrCodeUrl(user.email ?? user.uid, TOTP_ISSUER) }
+}
+
+export async function finishTotpEnrollment(
+  user: User,
+  secret: TotpSecret,
+  code: string,
+  displayName?: string
+): Promise<void> {
+  const assertion = TotpMultiFactorGenerator.assertionForEnrollment(secret, code)
+  await multiFactor(user).enroll(assertion, displayName)
+}
+
+// SMS enrollment: text a code to the number, then confirm it
+export async function startSmsEnrollment(
+  user: User,
+  phoneNumber: string,
+  verifier: RecaptchaVerifier
+): Promise<string> {
+  const session = await multiFactor(user).getSession()
+  return new PhoneAuthProvider(auth).verifyPhoneNumber({ phoneNumber, session }, verifier)
+}
+
+export async function finishSmsEnrollment(
+  user: User,
+  verificationId: string,
+  code: string,
+  displayName?: string
+): Promise<void> {
+  const credential = PhoneAuthProvider.credential(verificationId, code)
+  await multiFactor(user).enroll(PhoneMultiFactorGenerator.assertion(credential), displayName)
+}
+
+export async function unenrollFactor(user: User, factorUid: string): Promise<void> {
+  await multiFactor(user).unenroll(factorUid)
+}
+
+// Resolver for auth/multi-factor-auth-required, or null for any other error
+export function getMfaResolver(error: unknown): MultiFactorResolver | null {
+  if (!(error instanceof FirebaseError) || error.code !== 'auth/multi-factor-auth-required') {
+    return null
+  }
+  return getMultiFactorResolver(auth, error as MultiFactorError)
+}
+
+export async function sendSmsSignInCode(
+  resolver: MultiFactorResolver,
+  hint: PhoneMultiFactorInfo,
+  verifier: RecaptchaVerifier
+): Promise<string> {
+  return new PhoneAuthProvider(auth).verifyPhoneNumber(
+    { multiFactorHint: hint, session: resolver.session },
+    verifier
+  )
+}
+
+export async function resolveWithSms(
+  resolver: MultiFactorResolver,
+  verificationId: string,
+  code: string
+): Promise<UserCredential> {
+  const credential = PhoneAuthProvider.credential(verificationId, code)
+  return resolver.resolveSignIn(PhoneMultiFactorGenerator.assertion(credential))
+}
+
+export async function resolveWithTotp(
+  resolver: MultiFactorResolver,
+  hint: MultiFactorInfo,
+  code: string
+): Promise<UserCredential> {
+  return resolver.resolveSignIn(TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code))
+}
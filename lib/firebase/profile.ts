@@ -0,0 +1,56 @@
+// lib/firebase/profile.ts
+// Profile model shared by client and server. Profiles live in `users/{uid}`.
+import type { Theme, UserPreferences, UserProfile } from '@/types/auth'
+
+export const THEMES: readonly Theme[] = ['system', 'light', 'dark']
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'system',
+  emailNotifications: true,
+}
+
+export function isTheme(value: unknown): value is Theme {
+  return typeof value === 'string' && (THEMES as readonly string[]).includes(value)
+}
+
+export function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Client and Admin SDK timestamps both expose toDate()
+function toDate(value: unknown): Date | null {
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate()
+  }
+  return null
+}
+
+// Build a typed profile from document data, filling in defaults for missing fields
+export function profileFromData(uid: string, data: Record<string, unknown>): UserProfile {
+  const preferences = (data.preferences ?? {}) as Partial<UserPreferences>
+
+  return {
+    uid,
+    email: typeof data.email === 'string' ? data.email : null,
+    displayName: typeof data.displayName === 'string' ? data.displayName : null,
+    photoURL: typeof data.photoURL === 'string' ? data.photoURL : null,
+    emailVerified: data.emailVerified === true,
+    providerIds: Array.isArray(data.providerIds) ? data.providerIds : [],
+    timezone: typeof data.timezone === 'string' ? data.timezone : null,
+    preferences: {
+      theme: isTheme(preferences.theme) ? preferences.theme : DEFAULT_PREFERENCES.theme,
+      emailNotifications:
+        typeof preferences.emailNotifications === 'boolean'
+          ? preferences.emailNotifications
+          : DEFAULT_PREFERENCES.emailNotifications,
+    },
+    createdAt: toDate(data.createdAt),
+    lastSignInAt: toDate(data.lastSignInAt),
+    updatedAt: toDate(data.updatedAt),
+  }
+}
@@ -0,0 +1,76 @@
+// lib/firebase/profiles.ts
+import 'server-only'
+
+import { FieldValue } from 'firebase-admin/firestore'
+import { adminAuth, adminDb } from './admin'
+import { DEFAULT_PREFERENCES, profileFromData } from './profile'
+import type { UserPreferences, UserProfile } from '@/types/auth'
+
+// Clients may read their own profile; all writes go through the Admin SDK
+const usersCollection = () => adminDb.collection('users')
+
+export async function getProfile(uid: string): Promise<UserProfile | null> {
+  const snapshot = await usersCollection().doc(uid).get()
+  return snapshot.exists ? profileFromData(uid, snapshot.data()!) : null
+}
+
+// Create the profile on first sign-in, then keep the provider-owned fields in
+// sync. Name and avatar are only seeded so later edits on /profile stick.
+export async function syncProfile(uid: string): Promise<UserProfile> {
+  const userRecord = await adminAuth.getUser(uid)
+  const providerInfo = userRecord.providerData.find((info) => info.displayName || info.photoURL)
+  const ref = usersCollection().doc(uid)
+
+  await adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref)
+    const identity = {
+      email: userRecord.email ?? null,
+      emailVerified: userRecord.emailVerified,
+      providerIds: userRecord.providerData.map((info) => info.providerId),
+      lastSignInAt: FieldValue.serverTimestamp(),
+    }
+
+    if (!snapshot.exists) {
+      transaction.set(ref, {
+        ...identity,
+        displayName: userRecord.displayName ?? providerInfo?.displayName ?? null,
+        photoURL: userRecord.photoURL ?? providerInfo?.photoURL ?? null,
+        timezone: null,
+        preferences: DEFAULT_PREFERENCES,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      })
+      return
+    }
+
+    transaction.update(ref, {
+      ...identity,
+      ...(!snapshot.get('displayName') && {
+        displayName: userRecord.displayName ?? providerInfo?.displayName ?? null,
+      }),
+      ...(!snapshot.get('photoURL') && {
+        photoURL: userRecord.photoURL ?? providerInfo?.photoURL ?? null,
+      }),
+    })
+  })
+
+  return (await getProfile(uid))!
+}
+
+export interface ProfileUpdate {
+  displayName: string | null
+  photoURL: string | null
+  timezone: string | null
+  preferences: UserPreferences
+}
+
+// Name and avatar are mirrored onto the auth user so ID tokens stay consistent
+export async function updateProfile(uid: string, update: ProfileUpdate) {
+  await adminAuth.updateUser(uid, {
+    displayName: update.displayName,
+    photoURL: update.photoURL,
+  })
+  await usersCollection()
+    .doc(uid)
+    .set({ ...update, updatedAt: FieldValue.serverTimestamp() }, { merge: true })
+}
@@ -0,0 +1,35 @@
+// lib/firebase/provider-token.ts
+// Provider API access kept for a user, as listed to the client. The OAuth
+// access tokens themselves never leave the server (see provider-tokens.ts).
+
+export interface ProviderGrant {
+  // Firebase provider ID, e.g. 'github.com'
+  providerId: string
+  scopes: string[]
+  // Null when the provider's tokens do not expire (e.g. GitHub)
+  expiresAt: Date | null
+  updatedAt: Date
+}
+
+export function missingScopes(grant: ProviderGrant, scopes: readonly string[]): string[] {
+  return scopes.filter((scope) => !grant.scopes.includes(scope))
+}
+
+export function isGrantExpired(grant: ProviderGrant, now = Date.now()): boolean {
+  return grant.expiresAt !== null && grant.expiresAt.getTime() <= now
+}
+
+// Grants as returned by GET /api/provider-tokens, with dates revived
+export function grantFromJson(data: {
+  providerId: string
+  scopes: string[]
+  expiresAt: string | null
+  updatedAt: string
+}): ProviderGrant {
+  return {
+    providerId: data.providerId,
+    scopes: data.scopes,
+    expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+    updatedAt: new Date(data.updatedAt),
+  }
+}
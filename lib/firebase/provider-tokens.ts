@@ -0,0 +1,142 @@
+// lib/firebase/provider-tokens.ts
+import 'server-only'
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import { AuthError } from '@/lib/errors/auth-error'
+import type { Locale } from '@/lib/i18n/locales'
+import { adminDb } from './admin'
+import { isGrantExpired, missingScopes, type ProviderGrant } from './provider-token'
+import { getProviderConfig, providerNameFromId } from './providers'
+
+// Provider OAuth access tokens captured at sign-in, one `providerTokens/{uid}:{providerId}`
+// record per user and provider. Tokens are encrypted with AES-256-GCM under
+// PROVIDER_TOKEN_ENCRYPTION_KEY (32 bytes, base64), bound to the record's ID.
+const providerTokensCollection = () => adminDb.collection('providerTokens')
+
+const ALGORITHM = 'aes-256-gcm'
+
+// The token is missing, expired or lacks scopes; the client should run the
+// consent popup for `providerId` with `scopes` and try again
+export class ProviderConsentRequiredError extends AuthError<'provider-consent-required'> {
+  constructor(
+    public readonly providerId: string,
+    public readonly scopes: string[]
+  ) {
+    super('provider-consent-required')
+    this.name = 'ProviderConsentRequiredError'
+  }
+
+  toBody(locale?: Locale) {
+    return { ...super.toBody(locale), providerId: this.providerId, scopes: this.scopes }
+  }
+}
+
+function encryptionKey(): Buffer {
+  const key = Buffer.from(process.env.PROVIDER_TOKEN_ENCRYPTION_KEY ?? '', 'base64')
+  if (key.length !== 32) {
+    throw new Error('PROVIDER_TOKEN_ENCRYPTION_KEY must be 32 bytes, base64-encoded')
+  }
+  return key
+}
+
+function encrypt(plaintext: string, associatedData: string) {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv)
+  cipher.setAAD(Buffer.from(associatedData))
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+
+  return {
+    iv: iv.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+  }
+}
+
+function decrypt(
+  { iv, ciphertext, authTag }: { iv: string; ciphertext: string; authTag: string },
+  associatedData: string
+): string {
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'))
+  decipher.setAAD(Buffer.from(associatedData))
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'))
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8')
+}
+
+function providerTokenIdFor(uid: string, providerId: string): string {
+  return `${uid}:${providerId}`
+}
+
+function grantFromData(data: FirebaseFirestore.DocumentData): ProviderGrant {
+  return {
+    providerId: data.providerId,
+    scopes: data.scopes ?? [],
+    expiresAt: data.expiresAt?.toDate() ?? null,
+    updatedAt: data.updatedAt.toDate(),
+  }
+}
+
+// Store a freshly captured token. Providers add newly granted scopes to the
+// earlier ones, so the stored scopes accumulate.
+export async function saveProviderToken(
+  uid: string,
+  token: { providerId: string; accessToken: string; scopes: string[] }
+) {
+  const id = providerTokenIdFor(uid, token.providerId)
+  const ref = providerTokensCollection().doc(id)
+  const previousScopes: string[] = (await ref.get()).get('scopes') ?? []
+
+  const providerName = providerNameFromId(token.providerId)
+  const ttl = providerName ? getProviderConfig(providerName).accessTokenTtl : undefined
+  const now = new Date()
+
+  await ref.set({
+    uid,
+    providerId: token.providerId,
+    ...encrypt(token.accessToken, id),
+    scopes: [...new Set([...previousScopes, ...token.scopes])],
+    expiresAt: ttl ? new Date(now.getTime() + ttl * 1000) : null,
+    updatedAt: now,
+  })
+}
+
+// Access token for calling the provider's API on the user's behalf. Throws a
+// ProviderConsentRequiredError when there is none, it expired or it lacks a scope.
+//
+//   const token = await getProviderAccessToken(user.uid, 'github.com', ['read:org'])
+//   await fetch('https://api.github.com/user/orgs', { headers: { Authorization: `Bearer ${token}` } })
+export async function getProviderAccessToken(
+  uid: string,
+  providerId: string,
+  scopes: string[] = []
+): Promise<string> {
+  const id = providerTokenIdFor(uid, providerId)
+  const snapshot = await providerTokensCollection().doc(id).get()
+  const data = snapshot.data()
+
+  const grant = data ? grantFromData(data) : null
+
+  if (!data || !grant || isGrantExpired(grant)) {
+    throw new ProviderConsentRequiredError(providerId, scopes)
+  }
+
+  const missing = missingScopes(grant, scopes)
+  if (missing.length > 0) {
+    throw new ProviderConsentRequiredError(providerId, missing)
+  }
+
+  return decrypt({ iv: data.iv, ciphertext: data.ciphertext, authTag: data.authTag }, id)
+}
+
+export async function listProviderGrants(uid: string): Promise<ProviderGrant[]> {
+  const snapshot = await providerTokensCollection().where('uid', '==', uid).get()
+  return snapshot.docs.map((doc) => grantFromData(doc.data()))
+}
+
+// Forget the token, e.g. when the provider is disconnected
+export async function deleteProviderToken(uid: string, providerId: string) {
+  await providerTokensCollection().doc(providerTokenIdFor(uid, providerId)).delete()
+}
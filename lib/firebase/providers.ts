@@ -0,0 +1,165 @@
+// lib/firebase/providers.ts
+// Registry of sign-in providers. Buttons, linking and signIn(id) all read from
+// here; lib/firebase/auth.ts turns an entry into a Firebase provider.
+//
+// NEXT_PUBLIC_AUTH_PROVIDERS lists the enabled IDs (default: google,github,twitter).
+// NEXT_PUBLIC_AUTH_CUSTOM_PROVIDERS adds enterprise IdPs configured in Firebase
+// (Identity Platform) as a JSON array, e.g.
+//   [{ "id": "acme", "providerId": "oidc.acme", "label": "Acme SSO", "scopes": ["profile"] }]
+// OIDC entries may also set optionalScopes, customParameters and accessTokenTtl.
+// Custom providers are enabled by being listed there.
+
+export type ProviderKind = 'google' | 'github' | 'twitter' | 'oauth' | 'saml'
+
+export type ProviderIcon = 'google' | 'github' | 'x' | 'microsoft' | 'apple' | 'yahoo' | 'sso'
+
+export interface ProviderConfig {
+  // Our key for the provider, used by signIn(id)
+  id: string
+  // Firebase provider ID, e.g. 'google.com', 'microsoft.com', 'oidc.acme', 'saml.acme'
+  providerId: string
+  kind: ProviderKind
+  label: string
+  icon: ProviderIcon
+  // Dark buttons for brands that use them
+  dark?: boolean
+  scopes?: string[]
+  // Extra scopes users can grant later from Connected Accounts
+  optionalScopes?: string[]
+  customParameters?: Record<string, string>
+  // Lifetime in seconds of the provider's OAuth access token, when it expires
+  accessTokenTtl?: number
+  enabled: boolean
+}
+
+const DEFAULT_ENABLED = 'google,github,twitter'
+
+const enabledIds = new Set(
+  (process.env.NEXT_PUBLIC_AUTH_PROVIDERS ?? DEFAULT_ENABLED)
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+)
+
+const builtInProviders: Omit<ProviderConfig, 'enabled'>[] = [
+  {
+    id: 'google',
+    providerId: 'google.com',
+    kind: 'google',
+    label: 'Google',
+    icon: 'google',
+    scopes: ['https://www.googleapis.com/auth/userinfo.email'],
+    optionalScopes: ['https://www.googleapis.com/auth/calendar.readonly'],
+    customParameters: { prompt: 'select_account' },
+    accessTokenTtl: 3600,
+  },
+  {
+    id: 'github',
+    providerId: 'github.com',
+    kind: 'github',
+    label: 'GitHub',
+    icon: 'github',
+    dark: true,
+    scopes: ['user:email'],
+    optionalScopes: ['read:org', 'public_repo'],
+  },
+  {
+    id: 'twitter',
+    providerId: 'twitter.com',
+    kind: 'twitter',
+    label: 'X',
+    icon: 'x',
+    dark: true,
+  },
+  {
+    id: 'microsoft',
+    providerId: 'microsoft.com',
+    kind: 'oauth',
+    label: 'Microsoft',
+    icon: 'microsoft',
+    scopes: ['openid', 'email', 'profile'],
+    // Restrict to one Azure AD tenant, or 'common' for any account
+    customParameters: {
+      prompt: 'select_account',
+      tenant: process.env.NEXT_PUBLIC_AUTH_MICROSOFT_TENANT ?? 'common',
+    },
+    accessTokenTtl: 3600,
+  },
+  {
+    id: 'apple',
+    providerId: 'apple.com',
+    kind: 'oauth',
+    label: 'Apple',
+    icon: 'apple',
+    dark: true,
+    scopes: ['email', 'name'],
+  },
+  {
+    id: 'yahoo',
+    providerId: 'yahoo.com',
+    kind: 'oauth',
+    label: 'Yahoo',
+    icon: 'yahoo',
+    scopes: ['email', 'profile'],
+    accessTokenTtl: 3600,
+  },
+]
+
+// Custom IdPs; the Firebase provider ID prefix decides between OIDC and SAML
+function parseCustomProviders(json: string | undefined): ProviderConfig[] {
+  if (!json) {
+    return []
+  }
+
+  try {
+    const entries: Partial<ProviderConfig>[] = JSON.parse(json)
+    return entries
+      .filter(
+        (entry) =>
+          typeof entry.id === 'string' &&
+          typeof entry.providerId === 'string' &&
+          /^(oidc|saml)\./.test(entry.providerId)
+      )
+      .map((entry) => ({
+        id: entry.id!,
+        providerId: entry.providerId!,
+        kind: entry.providerId!.startsWith('saml.') ? 'saml' : 'oauth',
+        label: entry.label ?? entry.id!,
+        icon: 'sso',
+        scopes: entry.scopes,
+        optionalScopes: entry.optionalScopes,
+        customParameters: entry.customParameters,
+        accessTokenTtl: entry.accessTokenTtl,
+        enabled: true,
+      }))
+  } catch (error) {
+    console.error('Invalid NEXT_PUBLIC_AUTH_CUSTOM_PROVIDERS:', error)
+    return []
+  }
+}
+
+export const PROVIDERS: readonly ProviderConfig[] = [
+  ...builtInProviders.map((config) => ({ ...config, enabled: enabledIds.has(config.id) })),
+  ...parseCustomProviders(process.env.NEXT_PUBLIC_AUTH_CUSTOM_PROVIDERS),
+]
+
+export function getEnabledProviders(): ProviderConfig[] {
+  return PROVIDERS.filter((config) => config.enabled)
+}
+
+export function getProviderConfig(id: string): ProviderConfig {
+  const config = PROVIDERS.find((entry) => entry.id === id)
+  if (!config) {
+    throw new Error(`Unknown sign-in provider: ${id}`)
+  }
+  return config
+}
+
+export function getProviderLabel(id: string): string {
+  return getProviderConfig(id).label
+}
+
+// Map a Firebase provider ID (e.g. 'github.com') back to our provider ID
+export function providerNameFromId(providerId: string): string | null {
+  return PROVIDERS.find((config) => config.providerId === providerId)?.id ?? null
+}
@@ -0,0 +1,23 @@
+// lib/firebase/roles.ts
+// Role model shared by client and server. Roles live in the `roles` custom claim.
+import type { CustomClaims, Role } from '@/types/auth'
+
+export const ROLES: readonly Role[] = ['admin', 'editor', 'viewer']
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value)
+}
+
+// Read roles from token claims, ignoring anything unexpected
+export function rolesFromClaims(claims: CustomClaims | Record<string, unknown> | undefined): Role[] {
+  const roles = claims?.roles
+  return Array.isArray(roles) ? roles.filter(isRole) : []
+}
+
+// True when the user holds any of the required roles; admins pass every check
+export function hasRole(userRoles: readonly Role[], ...required: Role[]): boolean {
+  if (userRoles.includes('admin')) {
+    return true
+  }
+  return required.some((role) => userRoles.includes(role))
+}
@@ -0,0 +1,16 @@
+// lib/firebase/session.ts
+// Shared session cookie settings. Kept free of firebase-admin imports so it
+// can be used from route handlers, server components and the edge alike.
+
+export const SESSION_COOKIE_NAME = '__session'
+
+// Firebase session cookies can live between 5 minutes and 14 days
+export const SESSION_EXPIRES_IN_MS = 60 * 60 * 24 * 5 * 1000
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: SESSION_EXPIRES_IN_MS / 1000,
+}
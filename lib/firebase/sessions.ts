@@ -0,0 +1,160 @@
+// lib/firebase/sessions.ts
+import 'server-only'
+
+import { createHash } from 'crypto'
+import { adminDb, verifySessionCookie } from './admin'
+
+// Each session cookie gets a `sessions/{id}` record; a cookie without an
+// active record is rejected, which lets one device be signed out on its own.
+const sessionsCollection = () => adminDb.collection('sessions')
+
+// Only bump lastSeenAt this often to keep Firestore writes down
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000
+
+export interface SessionRecord {
+  id: string
+  uid: string
+  // auth_time of the sign-in the session was minted from
+  authTime: number
+  userAgent: string | null
+  ip: string | null
+  provider: string | null
+  createdAt: Date
+  lastSeenAt: Date
+  expiresAt: Date
+  terminatedAt: Date | null
+}
+
+// Session IDs are derived from the cookie, so no extra cookie is needed
+export function sessionIdFor(sessionCookie: string): string {
+  return createHash('sha256').update(sessionCookie).digest('hex')
+}
+
+export async function createSessionRecord(
+  sessionCookie: string,
+  details: {
+    uid: string
+    authTime: number
+    userAgent: string | null
+    ip: string | null
+    provider: string | null
+    // Lifetime the cookie was minted with
+    expiresIn: number
+  }
+) {
+  const { expiresIn, ...fields } = details
+  const now = new Date()
+  await sessionsCollection()
+    .doc(sessionIdFor(sessionCookie))
+    .set({
+      ...fields,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + expiresIn),
+      terminatedAt: null,
+    })
+}
+
+// verifySessionCookie plus a check that the session has not been terminated
+export async function verifySession(sessionCookie: string) {
+  const decodedToken = await verifySessionCookie(sessionCookie)
+
+  if (!decodedToken) {
+    return null
+  }
+
+  const ref = sessionsCollection().doc(sessionIdFor(sessionCookie))
+  const snapshot = await ref.get()
+
+  if (!snapshot.exists || snapshot.get('terminatedAt') || snapshot.get('uid') !== decodedToken.uid) {
+    return null
+  }
+
+  const lastSeenAt: Date = snapshot.get('lastSeenAt').toDate()
+  if (Date.now() - lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    ref.update({ lastSeenAt: new Date() }).catch((error) => {
+      console.error('Session lastSeenAt update failed:', error)
+    })
+  }
+
+  return decodedToken
+}
+
+export async function listActiveSessions(uid: string): Promise<SessionRecord[]> {
+  const snapshot = await sessionsCollection().where('uid', '==', uid).get()
+  const now = Date.now()
+
+  return snapshot.docs
+    .map((doc) => {
+      const data = doc.data()
+      return {
+        id: doc.id,
+        uid: data.uid,
+        authTime: data.authTime,
+        userAgent: data.userAgent ?? null,
+        ip: data.ip ?? null,
+        provider: data.provider ?? null,
+        createdAt: data.createdAt.toDate(),
+        lastSeenAt: data.lastSeenAt.toDate(),
+        expiresAt: data.expiresAt.toDate(),
+        terminatedAt: data.terminatedAt?.toDate() ?? null,
+      }
+    })
+    .filter((session) => !session.terminatedAt && session.expiresAt.getTime() > now)
+    .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+}
+
+// A terminated device still holds a valid Firebase login, so it must not mint
+// a new session from the same sign-in (same auth_time) - only a fresh sign-in.
+export async function isSignInTerminated(uid: string, authTime: number): Promise<boolean> {
+  const snapshot = await sessionsCollection()
+    .where('uid', '==', uid)
+    .where('authTime', '==', authTime)
+    .get()
+
+  return snapshot.docs.some((doc) => doc.get('terminatedAt'))
+}
+
+// Terminate one of the user's sessions; returns false if it is not theirs
+export async function terminateSession(uid: string, sessionId: string): Promise<boolean> {
+  const ref = sessionsCollection().doc(sessionId)
+  const snapshot = await ref.get()
+
+  if (!snapshot.exists || snapshot.get('uid') !== uid) {
+    return false
+  }
+
+  await ref.update({ terminatedAt: new Date() })
+  return true
+}
+
+// Terminate the session behind a cookie (used on logout; revocation is not
+// checked so sessions can still be closed after a "sign out everywhere").
+// Returns the session's uid, or null if the cookie was not valid.
+export async function endSession(sessionCookie: string): Promise<string | null> {
+  const decodedToken = await verifySessionCookie(sessionCookie, false)
+
+  if (!decodedToken) {
+    return null
+  }
+
+  await terminateSession(decodedToken.uid, sessionIdFor(sessionCookie))
+  return decodedToken.uid
+}
+
+// Drop the record of a cookie that was replaced by a newer one from the same
+// browser. Deleted rather than terminated so the sign-in can keep re-minting.
+export async function removeSession(sessionCookie: string) {
+  await sessionsCollection().doc(sessionIdFor(sessionCookie)).delete()
+}
+
+export async function terminateAllSessions(uid: string) {
+  const snapshot = await sessionsCollection()
+    .where('uid', '==', uid)
+    .where('terminatedAt', '==', null)
+    .get()
+
+  const batch = adminDb.batch()
+  snapshot.docs.forEach((doc) => batch.update(doc.ref, { terminatedAt: new Date() }))
+  await batch.commit()
+}
@@ -0,0 +1,149 @@
+// lib/firebase/token-refresh.ts
+'use client'
+
+import { FirebaseError } from 'firebase/app'
+import type { User } from 'firebase/auth'
+import { onAuthStateChange } from './auth'
+import type { SessionStatus } from '@/types/auth'
+
+// Refresh this long before the ID token expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+// Report 'expiring' once the token is this close to expiry without a new one
+const EXPIRING_WINDOW_MS = 2 * 60 * 1000
+// Backoff between attempts while the network is failing
+const RETRY_BASE_MS = 5 * 1000
+const RETRY_MAX_MS = 2 * 60 * 1000
+
+export interface TokenRefresherOptions {
+  user: User
+  // Only the leader tab refreshes; the others follow the token Firebase shares.
+  // The leader is always a visible tab (see AuthContext).
+  canRefresh: boolean
+  onStatusChange: (status: SessionStatus, expiresAt: Date | null) => void
+}
+
+function isNetworkError(error: unknown): boolean {
+  return error instanceof FirebaseError && error.code === 'auth/network-request-failed'
+}
+
+// Keep the user's ID token fresh, scheduled from its real expiry. Pauses while
+// offline or hidden and catches up on return. Returns a function that stops it.
+export function startTokenRefresher({
+  user,
+  canRefresh,
+  onStatusChange,
+}: TokenRefresherOptions): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let expiresAt: number | null = null
+  let attempt = 0
+  let refreshing = false
+  let stopped = false
+
+  const report = (status: SessionStatus) => {
+    if (!stopped) {
+      onStatusChange(status, expiresAt === null ? null : new Date(expiresAt))
+    }
+  }
+
+  const statusFromExpiry = (): SessionStatus => {
+    const remaining = (expiresAt ?? 0) - Date.now()
+    if (remaining <= 0) {
+      return 'expired'
+    }
+    return remaining <= EXPIRING_WINDOW_MS ? 'expiring' : 'active'
+  }
+
+  const schedule = (delay: number, task: () => void) => {
+    clearTimeout(timer)
+    timer = setTimeout(task, Math.max(0, delay))
+  }
+
+  // Work out the next step from the current token's expiry
+  const plan = () => {
+    clearTimeout(timer)
+    if (stopped || refreshing || expiresAt === null) {
+      return
+    }
+    if (!navigator.onLine) {
+      report('offline')
+      return
+    }
+
+    report(statusFromExpiry())
+    if (document.visibilityState === 'hidden') {
+      return
+    }
+
+    const remaining = expiresAt - Date.now()
+    if (canRefresh) {
+      schedule(remaining - REFRESH_MARGIN_MS, refresh)
+    } else if (remaining > 0) {
+      // Update the status if the leader has not renewed the token by then
+      schedule(remaining > EXPIRING_WINDOW_MS ? remaining - EXPIRING_WINDOW_MS : remaining, plan)
+    }
+  }
+
+  const refresh = async () => {
+    refreshing = true
+    report('refreshing')
+    try {
+      // The new expiry arrives through onAuthStateChange below, possibly
+      // before this resolves
+      await user.getIdToken(true)
+      attempt = 0
+      refreshing = false
+      plan()
+    } catch (error) {
+      refreshing = false
+      if (stopped) {
+        return
+      }
+      if (isNetworkError(error)) {
+        const delay = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS)
+        attempt += 1
+        report(navigator.onLine ? statusFromExpiry() : 'offline')
+        schedule(delay, refresh)
+        return
+      }
+      // Revoked refresh token or disabled user: Firebase signs the user out
+      console.error('Token refresh failed:', error)
+      report('expired')
+    }
+  }
+
+  const unsubscribe = onAuthStateChange(async (currentUser) => {
+    if (currentUser?.uid !== user.uid) {
+      return
+    }
+    try {
+      const { expirationTime } = await currentUser.getIdTokenResult()
+      expiresAt = new Date(expirationTime).getTime()
+    } catch (error) {
+      // Keep planning from the last known expiry
+      console.error('Reading the ID token failed:', error)
+    }
+    plan()
+  })
+
+  const handleOnline = () => {
+    attempt = 0
+    plan()
+  }
+  const handleOffline = () => {
+    clearTimeout(timer)
+    report('offline')
+  }
+
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('offline', handleOffline)
+  document.addEventListener('visibilitychange', plan)
+
+  return () => {
+    stopped = true
+    clearTimeout(timer)
+    unsubscribe()
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    document.removeEventListener('visibilitychange', plan)
+  }
+}
@@ -0,0 +1,83 @@
+// lib/firebase/user-admin.ts
+import 'server-only'
+
+import type { UserIdentifier, UserRecord } from 'firebase-admin/auth'
+import { adminAuth } from './admin'
+
+export const USERS_PAGE_SIZE = 25
+
+export interface UserPage {
+  users: UserRecord[]
+  nextPageToken?: string
+}
+
+// Batch size and cap for scanning accounts when a search is not an exact match
+const SEARCH_BATCH_SIZE = 1000
+const SEARCH_MAX_BATCHES = 10
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+[1-9]\d{1,14}$/
+const MAX_UID_LENGTH = 128
+
+// getUsers rejects malformed identifiers (e.g. a partial email) outright, so
+// only well-formed ones are looked up
+function userIdentifierFor(term: string): UserIdentifier | null {
+  if (term.includes('@')) {
+    return EMAIL_PATTERN.test(term) ? { email: term } : null
+  }
+  if (term.startsWith('+')) {
+    return PHONE_PATTERN.test(term) ? { phoneNumber: term } : null
+  }
+  return term.length <= MAX_UID_LENGTH ? { uid: term } : null
+}
+
+function matchesTerm(user: UserRecord, needle: string): boolean {
+  return Boolean(
+    user.email?.toLowerCase().includes(needle) ||
+      user.displayName?.toLowerCase().includes(needle)
+  )
+}
+
+// listUsers has no server-side search, so exact email/uid/phone matches are
+// looked up directly. Anything else scans accounts in batches until a page's
+// worth match; nextPageToken continues the scan.
+export async function searchUsers(query: string | undefined, pageToken?: string): Promise<UserPage> {
+  const term = query?.trim()
+
+  if (!term) {
+    const { users, pageToken: nextPageToken } = await adminAuth.listUsers(USERS_PAGE_SIZE, pageToken)
+    return { users, nextPageToken }
+  }
+
+  const identifier = pageToken ? null : userIdentifierFor(term)
+  if (identifier) {
+    const { users } = await adminAuth.getUsers([identifier])
+    if (users.length > 0) {
+      return { users }
+    }
+  }
+
+  const needle = term.toLowerCase()
+  const matches: UserRecord[] = []
+  let nextPageToken = pageToken
+
+  for (let batch = 0; batch < SEARCH_MAX_BATCHES && matches.length < USERS_PAGE_SIZE; batch++) {
+    const result = await adminAuth.listUsers(SEARCH_BATCH_SIZE, nextPageToken)
+    matches.push(...result.users.filter((user) => matchesTerm(user, needle)))
+    nextPageToken = result.pageToken
+
+    if (!nextPageToken) {
+      break
+    }
+  }
+
+  return { users: matches, nextPageToken }
+}
+
+export async function getUserRecord(uid: string): Promise<UserRecord | null> {
+  try {
+    return await adminAuth.getUser(uid)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,51 @@
+// lib/i18n/locales.ts
+// Supported UI languages and detection from the browser or Accept-Language.
+
+export const LOCALES = ['en', 'th', 'ja'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value)
+}
+
+// First supported language among tags in preference order; 'th-TH' matches 'th'
+export function matchLocale(tags: readonly string[]): Locale {
+  for (const tag of tags) {
+    const language = tag.trim().toLowerCase().split('-')[0]
+    if (isLocale(language)) {
+      return language
+    }
+  }
+  return DEFAULT_LOCALE
+}
+
+// Parse an Accept-Language header such as 'ja,en-US;q=0.9,en;q=0.8'
+export function localeFromAcceptLanguage(header: string | null | undefined): Locale {
+  if (!header) {
+    return DEFAULT_LOCALE
+  }
+
+  const tags = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.find((param) => param.trim().startsWith('q='))
+      return { tag, quality: q ? Number(q.trim().slice(2)) || 0 : 1 }
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+    .map(({ tag }) => tag)
+
+  return matchLocale(tags)
+}
+
+// The browser's preferred languages; the default when rendering on the server
+export function browserLocale(): Locale {
+  if (typeof navigator === 'undefined') {
+    return DEFAULT_LOCALE
+  }
+  return matchLocale(navigator.languages?.length ? navigator.languages : [navigator.language])
+}
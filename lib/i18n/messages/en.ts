@@ -0,0 +1,53 @@
+// lib/i18n/messages/en.ts
+// User-facing auth error messages. Other catalogs must define every key.
+
+export const en = {
+  'user-not-found': 'No account found with this email address.',
+  'wrong-password': 'Incorrect password. Please try again.',
+  'invalid-credential': 'Invalid email or password.',
+  'email-already-in-use': 'An account with this email already exists.',
+  'weak-password': 'Password must be at least 6 characters long.',
+  'invalid-email': 'Please enter a valid email address.',
+  'too-many-requests': 'Too many failed attempts. Please try again later.',
+  'user-disabled': 'This account has been disabled.',
+  'operation-not-allowed': 'This sign-in method is not enabled.',
+  'network-request-failed': 'Network error. Please check your connection.',
+  'popup-blocked': 'Please allow popups to sign in.',
+  'popup-closed-by-user': 'Sign-in cancelled.',
+  'account-exists-with-different-credential':
+    'An account exists with this email using a different sign-in method.',
+  'session-expired': 'Your session has expired. Please sign in again.',
+  'session-revoked': 'Your session was revoked. Please sign in again.',
+  'session-ended': 'This session was signed out from another device. Please sign in again.',
+  'missing-email': 'Please enter your email address.',
+  'missing-password': 'Please enter your password.',
+  'invalid-action-code': 'This link is invalid or has already been used.',
+  'expired-action-code': 'This link has expired. Please request a new one.',
+  'credential-already-in-use': 'That account is already connected to a different user.',
+  'provider-already-linked': 'That sign-in method is already connected.',
+  'user-mismatch': 'That sign-in belongs to a different account than the one connected.',
+  'recent-login-required': 'Please sign in again to continue.',
+  'second-factor-required': 'Please complete verification with your second factor.',
+  'invalid-verification-code': 'The verification code is incorrect.',
+  'missing-verification-code': 'Please enter the verification code.',
+  'code-expired': 'The verification code has expired. Please request a new one.',
+  'invalid-phone-number': 'Please enter a valid phone number, including the country code.',
+  'unverified-email': 'Please verify your email address before adding a second factor.',
+  'second-factor-already-in-use': 'This second factor is already enrolled.',
+  'maximum-second-factor-count-exceeded': 'You have enrolled the maximum number of second factors.',
+  unauthenticated: 'Please sign in to continue.',
+  'account-required': 'Please sign in or create an account to continue.',
+  forbidden: "You don't have permission to do that.",
+  'email-not-verified': 'Please verify your email address to continue.',
+  'mfa-required': 'Please set up two-step verification to continue.',
+  'insufficient-scope': 'This access token does not have permission for that.',
+  'provider-consent-required': 'Please allow access to your connected account to continue.',
+  'impersonation-restricted': 'Support staff cannot do this while impersonating a user.',
+  'csrf-failed': 'Your request could not be verified. Please reload the page and try again.',
+  'invalid-request': 'The request was invalid. Please try again.',
+  unknown: 'An unexpected error occurred. Please try again.',
+}
+
+export type MessageKey = keyof typeof en
+
+export type MessageCatalog = Record<MessageKey, string>
@@ -0,0 +1,13 @@
+// lib/i18n/messages/index.ts
+import { DEFAULT_LOCALE, type Locale } from '../locales'
+import { en, type MessageCatalog, type MessageKey } from './en'
+import { ja } from './ja'
+import { th } from './th'
+
+export type { MessageKey } from './en'
+
+const catalogs: Record<Locale, MessageCatalog> = { en, th, ja }
+
+export function translate(key: MessageKey, locale: Locale = DEFAULT_LOCALE): string {
+  return catalogs[locale][key]
+}
@@ -0,0 +1,49 @@
+// lib/i18n/messages/ja.ts
+import type { MessageCatalog } from './en'
+
+export const ja: MessageCatalog = {
+  'user-not-found': 'このメールアドレスのアカウントが見つかりません。',
+  'wrong-password': 'パスワードが正しくありません。もう一度お試しください。',
+  'invalid-credential': 'メールアドレスまたはパスワードが正しくありません。',
+  'email-already-in-use': 'このメールアドレスのアカウントは既に存在します。',
+  'weak-password': 'パスワードは6文字以上にしてください。',
+  'invalid-email': '有効なメールアドレスを入力してください。',
+  'too-many-requests': '試行回数が多すぎます。しばらくしてからもう一度お試しください。',
+  'user-disabled': 'このアカウントは無効になっています。',
+  'operation-not-allowed': 'このログイン方法は有効になっていません。',
+  'network-request-failed': 'ネットワークエラーです。接続を確認してください。',
+  'popup-blocked': 'ログインするにはポップアップを許可してください。',
+  'popup-closed-by-user': 'ログインがキャンセルされました。',
+  'account-exists-with-different-credential':
+    'このメールアドレスは別のログイン方法で登録されています。',
+  'session-expired': 'セッションの有効期限が切れました。もう一度ログインしてください。',
+  'session-revoked': 'セッションが取り消されました。もう一度ログインしてください。',
+  'session-ended': 'このセッションは別の端末からログアウトされました。もう一度ログインしてください。',
+  'missing-email': 'メールアドレスを入力してください。',
+  'missing-password': 'パスワードを入力してください。',
+  'invalid-action-code': 'このリンクは無効か、既に使用されています。',
+  'expired-action-code': 'このリンクの有効期限が切れています。新しいリンクをリクエストしてください。',
+  'credential-already-in-use': 'そのアカウントは既に別のユーザーに連携されています。',
+  'provider-already-linked': 'そのログイン方法は既に連携されています。',
+  'user-mismatch': '連携しているアカウントとは別のアカウントでログインしました。',
+  'recent-login-required': '続行するには、もう一度ログインしてください。',
+  'second-factor-required': '2段階目の認証を完了してください。',
+  'invalid-verification-code': '確認コードが正しくありません。',
+  'missing-verification-code': '確認コードを入力してください。',
+  'code-expired': '確認コードの有効期限が切れています。新しいコードをリクエストしてください。',
+  'invalid-phone-number': '国番号を含めた有効な電話番号を入力してください。',
+  'unverified-email': '2段階認証を追加する前にメールアドレスを確認してください。',
+  'second-factor-already-in-use': 'この2段階認証は既に登録されています。',
+  'maximum-second-factor-count-exceeded': '登録できる2段階認証の上限に達しています。',
+  unauthenticated: '続行するにはログインしてください。',
+  'account-required': '続行するには、ログインするかアカウントを作成してください。',
+  forbidden: 'この操作を行う権限がありません。',
+  'email-not-verified': '続行するにはメールアドレスを確認してください。',
+  'mfa-required': '続行するには2段階認証を設定してください。',
+  'insufficient-scope': 'このアクセストークンには、この操作の権限がありません。',
+  'provider-consent-required': '続行するには、連携しているアカウントへのアクセスを許可してください。',
+  'impersonation-restricted': 'ユーザーとしてログインしているサポート担当者はこの操作を行えません。',
+  'csrf-failed': 'リクエストを検証できませんでした。ページを再読み込みしてもう一度お試しください。',
+  'invalid-request': 'リクエストが無効です。もう一度お試しください。',
+  unknown: '予期しないエラーが発生しました。もう一度お試しください。',
+}
@@ -0,0 +1,49 @@
+// lib/i18n/messages/th.ts
+import type { MessageCatalog } from './en'
+
+export const th: MessageCatalog = {
+  'user-not-found': 'ไม่พบบัญชีที่ใช้อีเมลนี้',
+  'wrong-password': 'รหัสผ่านไม่ถูกต้อง โปรดลองอีกครั้ง',
+  'invalid-credential': 'อีเมลหรือรหัสผ่านไม่ถูกต้อง',
+  'email-already-in-use': 'มีบัญชีที่ใช้อีเมลนี้อยู่แล้ว',
+  'weak-password': 'รหัสผ่านต้องมีอย่างน้อย 6 ตัวอักษร',
+  'invalid-email': 'โปรดกรอกอีเมลให้ถูกต้อง',
+  'too-many-requests': 'พยายามหลายครั้งเกินไป โปรดลองใหม่ภายหลัง',
+  'user-disabled': 'บัญชีนี้ถูกระงับการใช้งาน',
+  'operation-not-allowed': 'ยังไม่ได้เปิดใช้วิธีเข้าสู่ระบบนี้',
+  'network-request-failed': 'เครือข่ายขัดข้อง โปรดตรวจสอบการเชื่อมต่อ',
+  'popup-blocked': 'โปรดอนุญาตป๊อปอัปเพื่อเข้าสู่ระบบ',
+  'popup-closed-by-user': 'ยกเลิกการเข้าสู่ระบบแล้ว',
+  'account-exists-with-different-credential':
+    'มีบัญชีที่ใช้อีเมลนี้ด้วยวิธีเข้าสู่ระบบอื่นอยู่แล้ว',
+  'session-expired': 'เซสชันหมดอายุแล้ว โปรดเข้าสู่ระบบอีกครั้ง',
+  'session-revoked': 'เซสชันถูกเพิกถอน โปรดเข้าสู่ระบบอีกครั้ง',
+  'session-ended': 'เซสชันนี้ถูกออกจากระบบจากอุปกรณ์อื่น โปรดเข้าสู่ระบบอีกครั้ง',
+  'missing-email': 'โปรดกรอกอีเมล',
+  'missing-password': 'โปรดกรอกรหัสผ่าน',
+  'invalid-action-code': 'ลิงก์นี้ไม่ถูกต้องหรือถูกใช้ไปแล้ว',
+  'expired-action-code': 'ลิงก์นี้หมดอายุแล้ว โปรดขอลิงก์ใหม่',
+  'credential-already-in-use': 'บัญชีนั้นเชื่อมต่อกับผู้ใช้อื่นอยู่แล้ว',
+  'provider-already-linked': 'วิธีเข้าสู่ระบบนี้เชื่อมต่ออยู่แล้ว',
+  'user-mismatch': 'การลงชื่อเข้าใช้นั้นเป็นของบัญชีอื่นที่ไม่ใช่บัญชีที่เชื่อมต่อไว้',
+  'recent-login-required': 'โปรดเข้าสู่ระบบอีกครั้งเพื่อดำเนินการต่อ',
+  'second-factor-required': 'โปรดยืนยันตัวตนด้วยปัจจัยที่สอง',
+  'invalid-verification-code': 'รหัสยืนยันไม่ถูกต้อง',
+  'missing-verification-code': 'โปรดกรอกรหัสยืนยัน',
+  'code-expired': 'รหัสยืนยันหมดอายุแล้ว โปรดขอรหัสใหม่',
+  'invalid-phone-number': 'โปรดกรอกหมายเลขโทรศัพท์ให้ถูกต้อง พร้อมรหัสประเทศ',
+  'unverified-email': 'โปรดยืนยันอีเมลก่อนเพิ่มปัจจัยที่สอง',
+  'second-factor-already-in-use': 'ปัจจัยที่สองนี้ลงทะเบียนไว้แล้ว',
+  'maximum-second-factor-count-exceeded': 'คุณลงทะเบียนปัจจัยที่สองครบจำนวนสูงสุดแล้ว',
+  unauthenticated: 'โปรดเข้าสู่ระบบเพื่อดำเนินการต่อ',
+  'account-required': 'โปรดเข้าสู่ระบบหรือสร้างบัญชีเพื่อดำเนินการต่อ',
+  forbidden: 'คุณไม่มีสิทธิ์ดำเนินการนี้',
+  'email-not-verified': 'โปรดยืนยันอีเมลเพื่อดำเนินการต่อ',
+  'mfa-required': 'โปรดตั้งค่าการยืนยันแบบสองขั้นตอนเพื่อดำเนินการต่อ',
+  'insufficient-scope': 'โทเค็นการเข้าถึงนี้ไม่มีสิทธิ์สำหรับการดำเนินการนี้',
+  'provider-consent-required': 'โปรดอนุญาตให้เข้าถึงบัญชีที่เชื่อมต่อไว้เพื่อดำเนินการต่อ',
+  'impersonation-restricted': 'เจ้าหน้าที่ฝ่ายสนับสนุนไม่สามารถดำเนินการนี้ได้ขณะสวมบทบาทเป็นผู้ใช้',
+  'csrf-failed': 'ไม่สามารถยืนยันคำขอได้ โปรดโหลดหน้าใหม่แล้วลองอีกครั้ง',
+  'invalid-request': 'คำขอไม่ถูกต้อง โปรดลองอีกครั้ง',
+  unknown: 'เกิดข้อผิดพลาดที่ไม่คาดคิด โปรดลองอีกครั้ง',
+}
@@ -0,0 +1,104 @@
+// lib/rate-limit/limiter.ts
+import { authErrorResponse } from '@/lib/errors/response'
+import { MemoryRateLimitStore, type RateLimitStore } from './store'
+
+export interface RateLimitRule {
+  // Requests allowed per window
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // Milliseconds until the window resets (0 while allowed)
+  retryAfterMs: number
+}
+
+// Repeated auth failures lock the key out; each lockout within strikeWindowMs
+// doubles the previous one, up to maxLockoutMs.
+export interface LockoutPolicy {
+  maxFailures: number
+  failureWindowMs: number
+  baseLockoutMs: number
+  maxLockoutMs: number
+  strikeWindowMs: number
+}
+
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+  maxFailures: 10,
+  failureWindowMs: 15 * 60 * 1000,
+  baseLockoutMs: 60 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+  strikeWindowMs: 24 * 60 * 60 * 1000,
+}
+
+export function createRateLimiter(store: RateLimitStore, policy = DEFAULT_LOCKOUT_POLICY) {
+  return {
+    async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+      const { count, expiresAt } = await store.increment(`rate:${key}`, rule.windowMs)
+      const allowed = count <= rule.limit
+
+      return {
+        allowed,
+        remaining: Math.max(0, rule.limit - count),
+        retryAfterMs: allowed ? 0 : expiresAt - Date.now(),
+      }
+    },
+
+    // Milliseconds left on the key's lockout, or 0 when it is not locked out
+    async lockedOutFor(key: string): Promise<number> {
+      const lock = await store.get(`lock:${key}`)
+      return lock ? lock.expiresAt - Date.now() : 0
+    },
+
+    async recordFailure(key: string) {
+      const failures = await store.increment(`fail:${key}`, policy.failureWindowMs)
+      if (failures.count < policy.maxFailures) {
+        return
+      }
+
+      const strikes = await store.increment(`strike:${key}`, policy.strikeWindowMs)
+      const lockoutMs = Math.min(
+        policy.baseLockoutMs * 2 ** (strikes.count - 1),
+        policy.maxLockoutMs
+      )
+
+      await store.reset(`fail:${key}`)
+      await store.reset(`lock:${key}`)
+      await store.increment(`lock:${key}`, lockoutMs)
+    },
+  }
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>
+
+// Lets everything through. The e2e suite signs in far more often than a real
+// client would, so it sets RATE_LIMIT_DISABLED; production ignores the flag.
+const unlimitedRateLimiter: RateLimiter = {
+  async consume(_key, rule) {
+    return { allowed: true, remaining: rule.limit, retryAfterMs: 0 }
+  },
+  async lockedOutFor() {
+    return 0
+  },
+  async recordFailure() {},
+}
+
+const rateLimitDisabled =
+  process.env.RATE_LIMIT_DISABLED === 'true' && process.env.NODE_ENV !== 'production'
+
+// Kept on globalThis so every route bundle and hot reload shares one store.
+// Swap in a shared store (e.g. Redis) here when running several instances.
+const globalForRateLimit = globalThis as typeof globalThis & { rateLimitStore?: RateLimitStore }
+globalForRateLimit.rateLimitStore ??= new MemoryRateLimitStore()
+
+export const rateLimiter = rateLimitDisabled
+  ? unlimitedRateLimiter
+  : createRateLimiter(globalForRateLimit.rateLimitStore)
+
+export function rateLimitResponse(retryAfterMs: number, requestHeaders: Headers) {
+  return authErrorResponse('rate-limited', requestHeaders, {
+    headers: { 'Retry-After': String(Math.max(1, Math.ceil(retryAfterMs / 1000))) },
+  })
+}
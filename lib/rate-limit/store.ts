@@ -0,0 +1,57 @@
+// lib/rate-limit/store.ts
+
+export interface RateLimitEntry {
+  count: number
+  // Epoch milliseconds when the window (and the entry) expires
+  expiresAt: number
+}
+
+// Fixed-window counters. Maps onto Redis as INCR + PEXPIRE NX / GET / DEL,
+// so a shared store can replace the in-memory one when running several instances.
+export interface RateLimitStore {
+  // Add a hit to the key's window, starting a new window if there is none
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>
+  get(key: string): Promise<RateLimitEntry | null>
+  reset(key: string): Promise<void>
+}
+
+// Expired entries are swept after this many writes
+const SWEEP_INTERVAL = 1000
+
+// Per-process store; counters are not shared between server instances
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>()
+  private writes = 0
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now()
+    const current = this.entries.get(key)
+    const entry =
+      current && current.expiresAt > now
+        ? { count: current.count + 1, expiresAt: current.expiresAt }
+        : { count: 1, expiresAt: now + windowMs }
+
+    this.entries.set(key, entry)
+    if (++this.writes % SWEEP_INTERVAL === 0) {
+      this.sweep(now)
+    }
+    return entry
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key)
+    return entry && entry.expiresAt > Date.now() ? entry : null
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  private sweep(now: number) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
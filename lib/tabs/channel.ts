@@ -0,0 +1,61 @@
+// lib/tabs/channel.ts
+// Messages between this app's open tabs. Uses BroadcastChannel where
+// available, otherwise localStorage 'storage' events (which only fire in the
+// other tabs, like BroadcastChannel).
+
+export interface TabChannel<Message> {
+  post(message: Message): void
+  subscribe(listener: (message: Message) => void): () => void
+  close(): void
+}
+
+function createBroadcastTabChannel<Message>(name: string): TabChannel<Message> {
+  const channel = new BroadcastChannel(name)
+
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe(listener) {
+      const onMessage = (event: MessageEvent<Message>) => listener(event.data)
+      channel.addEventListener('message', onMessage)
+      return () => channel.removeEventListener('message', onMessage)
+    },
+    close: () => channel.close(),
+  }
+}
+
+function createStorageTabChannel<Message>(name: string): TabChannel<Message> {
+  const key = `tab-channel:${name}`
+  const unsubscribes = new Set<() => void>()
+
+  return {
+    // A unique value per message so repeats still change the key; removing it
+    // right away keeps localStorage clean
+    post(message) {
+      window.localStorage.setItem(key, JSON.stringify({ message, nonce: crypto.randomUUID() }))
+      window.localStorage.removeItem(key)
+    },
+    subscribe(listener) {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === key && event.newValue) {
+          listener(JSON.parse(event.newValue).message)
+        }
+      }
+      window.addEventListener('storage', onStorage)
+      const unsubscribe = () => {
+        window.removeEventListener('storage', onStorage)
+        unsubscribes.delete(unsubscribe)
+      }
+      unsubscribes.add(unsubscribe)
+      return unsubscribe
+    },
+    close() {
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+    },
+  }
+}
+
+export function createTabChannel<Message>(name: string): TabChannel<Message> {
+  return typeof BroadcastChannel === 'function'
+    ? createBroadcastTabChannel<Message>(name)
+    : createStorageTabChannel<Message>(name)
+}
@@ -0,0 +1,87 @@
+// lib/tabs/leader.ts
+// Elects one leader among this app's open tabs for work that should only run
+// once per browser, such as token refresh. Uses the Web Locks API where
+// available: the lock passes to another tab when the leader closes. Otherwise
+// tabs compete for a lease in localStorage that the leader keeps renewing.
+
+const LEASE_MS = 10 * 1000
+const RENEW_MS = 4 * 1000
+
+function electWithLocks(name: string, onChange: (isLeader: boolean) => void) {
+  const controller = new AbortController()
+
+  navigator.locks
+    .request(`leader:${name}`, { signal: controller.signal }, () => {
+      onChange(true)
+      // Hold the lock until this tab stops competing
+      return new Promise<void>((resolve) => {
+        controller.signal.addEventListener('abort', () => resolve())
+      })
+    })
+    .catch(() => {
+      // Aborted while waiting for the lock
+    })
+
+  return () => {
+    controller.abort()
+    onChange(false)
+  }
+}
+
+function electWithLease(name: string, onChange: (isLeader: boolean) => void) {
+  const key = `tab-leader:${name}`
+  const tabId = crypto.randomUUID()
+  let isLeader = false
+
+  const readLease = (): { tabId: string; expiresAt: number } | null => {
+    try {
+      return JSON.parse(window.localStorage.getItem(key) ?? 'null')
+    } catch {
+      return null
+    }
+  }
+
+  const check = () => {
+    const lease = readLease()
+    const canClaim = !lease || lease.tabId === tabId || lease.expiresAt < Date.now()
+
+    if (canClaim) {
+      window.localStorage.setItem(key, JSON.stringify({ tabId, expiresAt: Date.now() + LEASE_MS }))
+    }
+
+    // Another tab may have claimed the expired lease at the same time; re-read
+    const nextIsLeader = readLease()?.tabId === tabId
+    if (nextIsLeader !== isLeader) {
+      isLeader = nextIsLeader
+      onChange(isLeader)
+    }
+  }
+
+  // Hand over quickly when the leader tab closes
+  const release = () => {
+    if (readLease()?.tabId === tabId) {
+      window.localStorage.removeItem(key)
+    }
+  }
+
+  check()
+  const interval = setInterval(check, RENEW_MS)
+  window.addEventListener('pagehide', release)
+
+  return () => {
+    clearInterval(interval)
+    window.removeEventListener('pagehide', release)
+    release()
+    if (isLeader) {
+      onChange(false)
+    }
+  }
+}
+
+// Calls onChange as this tab gains or loses leadership; returns a function
+// that stops competing (and gives up leadership)
+export function electLeader(name: string, onChange: (isLeader: boolean) => void): () => void {
+  return typeof navigator !== 'undefined' && navigator.locks
+    ? electWithLocks(name, onChange)
+    : electWithLease(name, onChange)
+}
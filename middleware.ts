@@ -0,0 +1,34 @@
+// middleware.ts
+import { createAuthMiddleware } from '@/lib/edge/auth-middleware'
+import { createTokenVerifier } from '@/lib/edge/token-verifier'
+
+// Created once per isolate so signing keys stay cached between requests
+const verifyToken = createTokenVerifier({
+  projectId: process.env.FIREBASE_PROJECT_ID ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
+  emulator: Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST),
+})
+
+export const middleware = createAuthMiddleware({
+  verifyToken,
+  routes: {
+    protected: [
+      '/dashboard/:path*',
+      '/profile/:path*',
+      '/activity/:path*',
+      '/sessions/:path*',
+      '/tokens/:path*',
+      '/admin/:path*',
+      '/api/protected/:path*',
+      '/api/admin/:path*',
+      '/api/guest/:path*',
+      '/api/provider-tokens/:path*',
+    ],
+    public: ['/api/session', '/api/logout', '/api/impersonation'],
+    guest: ['/dashboard/:path*'],
+  },
+})
+
+export const config = {
+  // Skip Next.js internals; everything else is checked against the route config
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+}
@@ -0,0 +1,79 @@
+// tests/e2e/access-tokens.test.ts
+import { beforeAll, describe, expect, it } from 'vitest'
+import { createAccessToken, revokeAccessToken } from '@/lib/firebase/access-tokens'
+import { appFetch, createTestUser, resetEmulators, type TestUser } from './helpers'
+
+describe('personal access tokens', () => {
+  let user: TestUser
+
+  beforeAll(async () => {
+    await resetEmulators()
+    user = await createTestUser()
+  })
+
+  const withToken = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } })
+
+  it('authenticates API calls within its scope', async () => {
+    const { token } = await createAccessToken(user.uid, {
+      name: 'CI',
+      scopes: ['user:read'],
+      expiresAt: null,
+    })
+
+    const response = await appFetch('/api/protected', withToken(token))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ uid: user.uid, email: user.email })
+  })
+
+  it('rejects routes outside its scopes', async () => {
+    const { token } = await createAccessToken(user.uid, {
+      name: 'Audit only',
+      scopes: ['admin:audit'],
+      expiresAt: null,
+    })
+
+    const response = await appFetch('/api/protected', withToken(token))
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'insufficient-scope' })
+  })
+
+  it('rejects revoked and expired tokens', async () => {
+    const revoked = await createAccessToken(user.uid, {
+      name: 'Revoked',
+      scopes: ['user:read'],
+      expiresAt: null,
+    })
+    expect(await revokeAccessToken(user.uid, revoked.record.id)).toBe(true)
+
+    const expired = await createAccessToken(user.uid, {
+      name: 'Expired',
+      scopes: ['user:read'],
+      expiresAt: new Date(Date.now() - 1000),
+    })
+
+    for (const { token } of [revoked, expired]) {
+      const response = await appFetch('/api/protected', withToken(token))
+
+      expect(response.status).toBe(401)
+      expect(await response.json()).toMatchObject({ code: 'unauthenticated' })
+    }
+  })
+
+  it('rejects unknown tokens', async () => {
+    const response = await appFetch('/api/protected', withToken('pat_not-a-real-token'))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('only lets the owner revoke a token', async () => {
+    const { record } = await createAccessToken(user.uid, {
+      name: 'Mine',
+      scopes: ['user:read'],
+      expiresAt: null,
+    })
+
+    expect(await revokeAccessToken('someone-else', record.id)).toBe(false)
+  })
+})
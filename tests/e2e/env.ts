@@ -0,0 +1,25 @@
+// tests/e2e/env.ts
+// Shared by the Vitest config, the dev server started for the suite and the tests
+
+export const PROJECT_ID = 'demo-firebase-auth'
+export const AUTH_EMULATOR_HOST = '127.0.0.1:9099'
+export const FIRESTORE_EMULATOR_HOST = '127.0.0.1:8080'
+
+export const APP_PORT = 3100
+export const BASE_URL = `http://127.0.0.1:${APP_PORT}`
+
+// `demo-` projects only ever talk to the emulators
+export const EMULATOR_ENV = {
+  NEXT_PUBLIC_FIREBASE_API_KEY: 'demo-api-key',
+  NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN: `${PROJECT_ID}.firebaseapp.com`,
+  NEXT_PUBLIC_FIREBASE_PROJECT_ID: PROJECT_ID,
+  NEXT_PUBLIC_FIREBASE_USE_EMULATORS: 'true',
+  NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST: AUTH_EMULATOR_HOST,
+  NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST: FIRESTORE_EMULATOR_HOST,
+  FIREBASE_PROJECT_ID: PROJECT_ID,
+  FIREBASE_AUTH_EMULATOR_HOST: AUTH_EMULATOR_HOST,
+  FIRESTORE_EMULATOR_HOST: FIRESTORE_EMULATOR_HOST,
+  PROVIDER_TOKEN_ENCRYPTION_KEY: Buffer.alloc(32, 'demo').toString('base64'),
+  // Every test signs in from 127.0.0.1; the limiter would soon lock it out
+  RATE_LIMIT_DISABLED: 'true',
+}
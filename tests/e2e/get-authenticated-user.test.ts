@@ -0,0 +1,62 @@
+// tests/e2e/get-authenticated-user.test.ts
+// Calls the server action directly, with a session minted by the dev server
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { appFetch, createSession, createTestUser, resetEmulators, type TestUser } from './helpers'
+
+const cookieJar = vi.hoisted(() => new Map<string, string>())
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+  }),
+  headers: async () => new Headers(),
+}))
+
+const { getAuthenticatedUser } = await import('@/actions/auth-actions')
+
+describe('getAuthenticatedUser', () => {
+  let user: TestUser
+  let session: string
+
+  beforeAll(async () => {
+    await resetEmulators()
+    user = await createTestUser()
+    session = (await createSession(user.idToken)).session!
+  })
+
+  beforeEach(() => {
+    cookieJar.clear()
+  })
+
+  it('reports a signed-out caller without a session cookie', async () => {
+    expect(await getAuthenticatedUser()).toEqual({ isAuthenticated: false, user: null })
+  })
+
+  it('returns the verified user for a valid session', async () => {
+    cookieJar.set('__session', session)
+
+    const result = await getAuthenticatedUser()
+
+    expect(result.isAuthenticated).toBe(true)
+    expect(result.user).toMatchObject({
+      uid: user.uid,
+      email: user.email,
+      emailVerified: false,
+      roles: [],
+      secondFactor: null,
+    })
+  })
+
+  it('rejects a malformed session cookie', async () => {
+    cookieJar.set('__session', 'not-a-cookie')
+
+    expect(await getAuthenticatedUser()).toEqual({ isAuthenticated: false, user: null })
+  })
+
+  it('rejects the session after logout', async () => {
+    await appFetch('/api/logout', { method: 'POST', session, csrf: true })
+    cookieJar.set('__session', session)
+
+    expect(await getAuthenticatedUser()).toEqual({ isAuthenticated: false, user: null })
+  })
+})
@@ -0,0 +1,57 @@
+// tests/e2e/global-setup.ts
+// Starts a Next.js dev server wired to the emulators for the whole suite
+import { spawn } from 'node:child_process'
+import { createRequire } from 'node:module'
+import { APP_PORT, AUTH_EMULATOR_HOST, BASE_URL, EMULATOR_ENV, FIRESTORE_EMULATOR_HOST } from './env'
+
+const SERVER_START_TIMEOUT_MS = 150_000
+
+async function assertReachable(url: string, name: string) {
+  try {
+    await fetch(url)
+  } catch {
+    throw new Error(
+      `The ${name} emulator is not running at ${url}. Use \`npm run test:e2e\`, which starts it.`
+    )
+  }
+}
+
+async function waitForServer() {
+  const deadline = Date.now() + SERVER_START_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    try {
+      // Also compiles the login page before the first test needs it
+      const response = await fetch(`${BASE_URL}/login`)
+      if (response.status < 500) {
+        return
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000))
+  }
+  throw new Error(`Dev server did not start on ${BASE_URL}`)
+}
+
+export default async function setup() {
+  await assertReachable(`http://${AUTH_EMULATOR_HOST}/`, 'Auth')
+  await assertReachable(`http://${FIRESTORE_EMULATOR_HOST}/`, 'Firestore')
+
+  const nextBin = createRequire(import.meta.url).resolve('next/dist/bin/next')
+  const server = spawn(
+    process.execPath,
+    [nextBin, 'dev', '--port', String(APP_PORT), '--hostname', '127.0.0.1'],
+    { env: { ...process.env, ...EMULATOR_ENV }, stdio: ['ignore', 'inherit', 'inherit'] }
+  )
+
+  try {
+    await waitForServer()
+  } catch (error) {
+    server.kill()
+    throw error
+  }
+
+  return async () => {
+    server.kill()
+  }
+}
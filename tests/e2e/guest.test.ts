@@ -0,0 +1,72 @@
+// tests/e2e/guest.test.ts
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  appFetch,
+  createGuestUser,
+  createSession,
+  createTestUser,
+  resetEmulators,
+  type TestUser,
+} from './helpers'
+
+describe('guest sessions', () => {
+  let guestSession: string
+
+  beforeAll(async () => {
+    await resetEmulators()
+    guestSession = (await createSession((await createGuestUser()).idToken)).session!
+  })
+
+  it('lets guests into routes that allow them', async () => {
+    const response = await appFetch('/dashboard', { session: guestSession })
+
+    expect(response.status).toBe(200)
+  })
+
+  it('sends guests to sign in elsewhere', async () => {
+    const response = await appFetch('/profile', { session: guestSession })
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toContain('/login?returnTo=%2Fprofile')
+  })
+
+  it('rejects guests from API routes with account-required', async () => {
+    const response = await appFetch('/api/protected', { session: guestSession })
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'account-required' })
+  })
+
+  describe('merging into an existing account', () => {
+    let user: TestUser
+    let session: string
+
+    beforeAll(async () => {
+      user = await createTestUser()
+      session = (await createSession(user.idToken)).session!
+    })
+
+    const merge = (guestIdToken: string) =>
+      appFetch('/api/guest/merge', {
+        method: 'POST',
+        session,
+        csrf: true,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guestIdToken }),
+      })
+
+    it('merges and deletes the guest account', async () => {
+      const guest = await createGuestUser()
+
+      expect((await merge(guest.idToken)).status).toBe(200)
+      // The guest no longer exists, so its token is rejected
+      expect((await merge(guest.idToken)).status).toBe(400)
+    })
+
+    it('only accepts guest tokens', async () => {
+      const other = await createTestUser()
+
+      expect((await merge(other.idToken)).status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,119 @@
+// tests/e2e/helpers.ts
+import { randomUUID } from 'node:crypto'
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from '@/lib/edge/csrf'
+import { IMPERSONATOR_COOKIE_NAME } from '@/lib/firebase/impersonation'
+import { SESSION_COOKIE_NAME } from '@/lib/firebase/session'
+import { AUTH_EMULATOR_HOST, BASE_URL, FIRESTORE_EMULATOR_HOST, PROJECT_ID } from './env'
+
+const IDENTITY_TOOLKIT_URL = `http://${AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com/v1`
+
+export interface TestUser {
+  uid: string
+  email: string
+  password: string
+  idToken: string
+}
+
+// Wipe all accounts and documents between test files
+export async function resetEmulators() {
+  await fetch(`http://${AUTH_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/accounts`, {
+    method: 'DELETE',
+  })
+  await fetch(
+    `http://${FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  )
+}
+
+async function identityToolkit(method: string, body: Record<string, unknown>) {
+  const response = await fetch(`${IDENTITY_TOOLKIT_URL}/accounts:${method}?key=demo-api-key`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, returnSecureToken: true }),
+  })
+  if (!response.ok) {
+    throw new Error(`accounts:${method} failed: ${await response.text()}`)
+  }
+  return response.json()
+}
+
+export async function createTestUser(password = 'correct-horse-battery'): Promise<TestUser> {
+  const email = `user-${randomUUID()}@example.com`
+  const { localId, idToken } = await identityToolkit('signUp', { email, password })
+  return { uid: localId, email, password, idToken }
+}
+
+// Anonymous sign-up, as signInAnonymously does
+export async function createGuestUser(): Promise<{ uid: string; idToken: string }> {
+  const { localId, idToken } = await identityToolkit('signUp', {})
+  return { uid: localId, idToken }
+}
+
+// A fresh sign-in, as a second device would have. Waits a second so the new
+// sign-in gets its own auth_time (emulator tokens are otherwise identical).
+export async function signInAgain(user: TestUser): Promise<string> {
+  await new Promise((resolve) => setTimeout(resolve, 1100))
+  const { idToken } = await identityToolkit('signInWithPassword', {
+    email: user.email,
+    password: user.password,
+  })
+  return idToken
+}
+
+// Exchange a custom token minted with adminAuth.createCustomToken, as
+// signInWithCustomToken does
+export async function signInWithCustomToken(token: string): Promise<string> {
+  const { idToken } = await identityToolkit('signInWithCustomToken', { token })
+  return idToken
+}
+
+interface AppFetchOptions extends RequestInit {
+  session?: string
+  // The admin session set aside while impersonating
+  impersonator?: string
+  // Send a matching CSRF cookie and header, as apiFetch does
+  csrf?: boolean
+}
+
+// Requests to the dev server from a same-origin page
+export function appFetch(
+  path: string,
+  { session, impersonator, csrf, ...init }: AppFetchOptions = {}
+) {
+  const headers = new Headers(init.headers)
+  const cookies: string[] = []
+
+  headers.set('Origin', BASE_URL)
+  if (session) {
+    cookies.push(`${SESSION_COOKIE_NAME}=${session}`)
+  }
+  if (impersonator) {
+    cookies.push(`${IMPERSONATOR_COOKIE_NAME}=${impersonator}`)
+  }
+  if (csrf) {
+    const token = randomUUID()
+    cookies.push(`${CSRF_COOKIE_NAME}=${token}`)
+    headers.set(CSRF_HEADER_NAME, token)
+  }
+  if (cookies.length > 0) {
+    headers.set('Cookie', cookies.join('; '))
+  }
+
+  return fetch(`${BASE_URL}${path}`, { redirect: 'manual', ...init, headers })
+}
+
+// Exchange an ID token for a session cookie through /api/session
+export async function createSession(idToken: string) {
+  const response = await appFetch('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken }),
+  })
+
+  const setCookie = response.headers
+    .getSetCookie()
+    .find((cookie) => cookie.startsWith(`${SESSION_COOKIE_NAME}=`))
+  const session = setCookie?.split(';')[0].slice(SESSION_COOKIE_NAME.length + 1) || null
+
+  return { response, session }
+}
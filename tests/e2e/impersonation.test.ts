@@ -0,0 +1,169 @@
+// tests/e2e/impersonation.test.ts
+import { beforeAll, describe, expect, it } from 'vitest'
+import { queryAuditEvents } from '@/lib/audit/log'
+import { setUserRoles } from '@/lib/firebase/admin'
+import { IMPERSONATION_EXPIRES_IN_MS } from '@/lib/firebase/impersonation'
+import { listActiveSessions, sessionIdFor } from '@/lib/firebase/sessions'
+import {
+  appFetch,
+  createSession,
+  createTestUser,
+  resetEmulators,
+  signInAgain,
+  signInWithCustomToken,
+  type TestUser,
+} from './helpers'
+
+describe('impersonation', () => {
+  let admin: TestUser
+  let user: TestUser
+  let adminSession: string
+
+  beforeAll(async () => {
+    await resetEmulators()
+    admin = await createTestUser()
+    user = await createTestUser()
+    await setUserRoles(admin.uid, ['admin'])
+    // Sign in again so the token carries the admin role
+    adminSession = (await createSession(await signInAgain(admin))).session!
+  })
+
+  const startImpersonation = (uid: string, session = adminSession) =>
+    appFetch('/api/admin/impersonation', {
+      method: 'POST',
+      session,
+      csrf: true,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uid }),
+    })
+
+  // Sign in with the custom token and exchange it for a session, as the client does
+  async function impersonate(uid: string) {
+    const response = await startImpersonation(uid)
+    expect(response.status).toBe(200)
+
+    const { token } = await response.json()
+    return (await createSession(await signInWithCustomToken(token))).session!
+  }
+
+  it('signs the admin in as the user and records who started it', async () => {
+    const session = await impersonate(user.uid)
+
+    const response = await appFetch('/api/protected', { session })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ uid: user.uid })
+
+    const [event] = await queryAuditEvents({ uid: user.uid, type: 'impersonation-started' })
+    expect(event).toMatchObject({ uid: user.uid, actorUid: admin.uid })
+  })
+
+  it('lists the support session with its real expiry', async () => {
+    const session = await impersonate(user.uid)
+
+    const record = (await listActiveSessions(user.uid)).find(
+      ({ id }) => id === sessionIdFor(session)
+    )
+    expect(record!.expiresAt.getTime() - record!.createdAt.getTime()).toBe(
+      IMPERSONATION_EXPIRES_IN_MS
+    )
+  })
+
+  it('keeps the admin session aside', async () => {
+    const response = await startImpersonation(user.uid)
+
+    expect(response.headers.getSetCookie().join('\n')).toContain(`__impersonator=${adminSession}`)
+    expect((await appFetch('/api/protected', { session: adminSession })).status).toBe(200)
+  })
+
+  it('stops impersonating and gives the admin session back', async () => {
+    const target = await createTestUser()
+    const session = await impersonate(target.uid)
+
+    const response = await appFetch('/api/impersonation', {
+      method: 'DELETE',
+      session,
+      impersonator: adminSession,
+      csrf: true,
+    })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ uid: admin.uid, token: expect.any(String) })
+    expect(response.headers.getSetCookie().join('\n')).toContain(`__session=${adminSession}`)
+    expect((await appFetch('/api/protected', { session })).status).toBe(401)
+
+    const [event] = await queryAuditEvents({ uid: target.uid, type: 'impersonation-ended' })
+    expect(event).toMatchObject({ uid: target.uid, actorUid: admin.uid })
+  })
+
+  it('records the end of an impersonation when the admin session cannot be restored', async () => {
+    const target = await createTestUser()
+    const session = await impersonate(target.uid)
+
+    const response = await appFetch('/api/impersonation', {
+      method: 'DELETE',
+      session,
+      impersonator: 'not-a-session-cookie',
+      csrf: true,
+    })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ uid: null, token: null })
+
+    const [event] = await queryAuditEvents({ uid: target.uid, type: 'impersonation-ended' })
+    expect(event).toMatchObject({ uid: target.uid, actorUid: admin.uid })
+  })
+
+  it('records signing out while impersonating as the admin ending it', async () => {
+    const target = await createTestUser()
+    const session = await impersonate(target.uid)
+    // Signing out ends the set-aside admin session, so use one of its own
+    const ownAdminSession = (await createSession(await signInAgain(admin))).session!
+
+    const response = await appFetch('/api/logout', {
+      method: 'POST',
+      session,
+      impersonator: ownAdminSession,
+      csrf: true,
+    })
+    expect(response.status).toBe(200)
+
+    const [event] = await queryAuditEvents({ uid: target.uid, type: 'impersonation-ended' })
+    expect(event).toMatchObject({ uid: target.uid, actorUid: admin.uid })
+    expect(await queryAuditEvents({ uid: target.uid, type: 'sign-out' })).toEqual([])
+  })
+
+  it('blocks sensitive actions while impersonating', async () => {
+    const session = await impersonate(user.uid)
+
+    const logout = await appFetch('/api/logout', {
+      method: 'POST',
+      session,
+      csrf: true,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ everywhere: true }),
+    })
+    expect(logout.status).toBe(403)
+    expect(await logout.json()).toMatchObject({ code: 'impersonation-restricted' })
+
+    const providerToken = await appFetch('/api/provider-tokens', {
+      method: 'DELETE',
+      session,
+      csrf: true,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ providerId: 'google.com' }),
+    })
+    expect(providerToken.status).toBe(403)
+    expect(await providerToken.json()).toMatchObject({ code: 'impersonation-restricted' })
+  })
+
+  it('refuses other admins and non-admin callers', async () => {
+    const otherAdmin = await createTestUser()
+    await setUserRoles(otherAdmin.uid, ['admin'])
+
+    const adminTarget = await startImpersonation(otherAdmin.uid)
+    expect(adminTarget.status).toBe(403)
+    expect(await adminTarget.json()).toMatchObject({ code: 'forbidden' })
+
+    const { session } = await createSession(user.idToken)
+    const notAdmin = await startImpersonation(admin.uid, session!)
+    expect(notAdmin.status).toBe(403)
+  })
+})
@@ -0,0 +1,82 @@
+// tests/e2e/logout.test.ts
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  appFetch,
+  createSession,
+  createTestUser,
+  resetEmulators,
+  signInAgain,
+  type TestUser,
+} from './helpers'
+
+// Signed in on two devices, each with its own session
+async function signInTwice(user: TestUser) {
+  const first = (await createSession(user.idToken)).session!
+  const second = (await createSession(await signInAgain(user))).session!
+  return [first, second]
+}
+
+describe('/api/logout', () => {
+  let user: TestUser
+
+  beforeEach(async () => {
+    await resetEmulators()
+    user = await createTestUser()
+  })
+
+  it('rejects a cookie-authenticated logout without a CSRF token', async () => {
+    const { session } = await createSession(user.idToken)
+    const response = await appFetch('/api/logout', { method: 'POST', session: session! })
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'csrf-failed' })
+  })
+
+  it('rejects a cross-origin logout', async () => {
+    const { session } = await createSession(user.idToken)
+    const response = await appFetch('/api/logout', {
+      method: 'POST',
+      session: session!,
+      csrf: true,
+      headers: { Origin: 'https://attacker.example' },
+    })
+
+    expect(response.status).toBe(403)
+  })
+
+  it('ends only the current session and clears its cookie', async () => {
+    const [first, second] = await signInTwice(user)
+
+    const response = await appFetch('/api/logout', { method: 'POST', session: first, csrf: true })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.getSetCookie().join('\n')).toMatch(/__session=;/)
+    expect((await appFetch('/api/protected', { session: first })).status).toBe(401)
+    expect((await appFetch('/api/protected', { session: second })).status).toBe(200)
+  })
+
+  it('ends every session with { everywhere: true }', async () => {
+    const [first, second] = await signInTwice(user)
+
+    const response = await appFetch('/api/logout', {
+      method: 'POST',
+      session: first,
+      csrf: true,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ everywhere: true }),
+    })
+
+    expect(response.status).toBe(200)
+    expect((await appFetch('/api/protected', { session: second })).status).toBe(401)
+  })
+
+  it('refuses to sign out everywhere without a valid session', async () => {
+    const response = await appFetch('/api/logout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ everywhere: true }),
+    })
+
+    expect(response.status).toBe(401)
+  })
+})
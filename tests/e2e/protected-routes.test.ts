@@ -0,0 +1,134 @@
+// tests/e2e/protected-routes.test.ts
+import { beforeAll, describe, expect, it } from 'vitest'
+import { queryAuditEvents } from '@/lib/audit/log'
+import { translate } from '@/lib/i18n/messages'
+import {
+  appFetch,
+  createSession,
+  createTestUser,
+  resetEmulators,
+  signInAgain,
+  type TestUser,
+} from './helpers'
+
+describe('protected routes', () => {
+  let user: TestUser
+  let session: string
+
+  beforeAll(async () => {
+    await resetEmulators()
+    user = await createTestUser()
+    session = (await createSession(user.idToken)).session!
+  })
+
+  it('redirects signed-out visitors to /login with a returnTo', async () => {
+    const response = await appFetch('/dashboard?tab=roles')
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toContain(
+      `/login?returnTo=${encodeURIComponent('/dashboard?tab=roles')}`
+    )
+  })
+
+  it('renders the dashboard for a valid session', async () => {
+    const response = await appFetch('/dashboard', { session })
+
+    expect(response.status).toBe(200)
+    // Server-rendered from the session, not after Firebase initializes
+    const html = await response.text()
+    expect(html).toContain(user.email)
+    expect(html).toContain(user.uid)
+  })
+
+  it('sends signed-in visitors on from /login', async () => {
+    const response = await appFetch('/login?returnTo=%2Fprofile', { session })
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toMatch(/\/profile$/)
+  })
+
+  it('redirects from the protected layout once the session has ended', async () => {
+    const { session: endedSession } = await createSession(await signInAgain(user))
+    const logout = await appFetch('/api/logout', {
+      method: 'POST',
+      session: endedSession!,
+      csrf: true,
+    })
+    expect(logout.status).toBe(200)
+
+    // The cookie still passes the edge check; the layout sees the ended session
+    const response = await appFetch('/dashboard', { session: endedSession! })
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toContain('/login?returnTo=%2Fdashboard')
+  })
+
+  describe('/api/protected', () => {
+    it('rejects requests without credentials', async () => {
+      const response = await appFetch('/api/protected')
+
+      expect(response.status).toBe(401)
+      expect(await response.json()).toMatchObject({ code: 'unauthenticated' })
+    })
+
+    it('localizes the error message from Accept-Language', async () => {
+      const response = await appFetch('/api/protected', {
+        headers: { 'Accept-Language': 'ja-JP,ja;q=0.9,en;q=0.8' },
+      })
+
+      expect(response.status).toBe(401)
+      expect(await response.json()).toEqual({
+        code: 'unauthenticated',
+        error: translate('unauthenticated', 'ja'),
+      })
+    })
+
+    it('accepts the session cookie', async () => {
+      const response = await appFetch('/api/protected', { session })
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toMatchObject({ uid: user.uid, email: user.email, roles: [] })
+    })
+
+    it('accepts a Bearer ID token', async () => {
+      const response = await appFetch('/api/protected', {
+        headers: { Authorization: `Bearer ${user.idToken}` },
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toMatchObject({ uid: user.uid })
+    })
+
+    it('rejects an invalid Bearer token', async () => {
+      const response = await appFetch('/api/protected', {
+        headers: { Authorization: 'Bearer not-a-token' },
+      })
+
+      expect(response.status).toBe(401)
+    })
+
+    it('audits an ended session cookie for its user', async () => {
+      const other = await createTestUser()
+      const { session: endedSession } = await createSession(other.idToken)
+      await appFetch('/api/logout', { method: 'POST', session: endedSession!, csrf: true })
+
+      const response = await appFetch('/api/protected', { session: endedSession! })
+      expect(response.status).toBe(401)
+
+      const [event] = await queryAuditEvents({ uid: other.uid, type: 'token-verification-failed' })
+      expect(event).toMatchObject({ uid: other.uid, details: { credential: 'session-cookie' } })
+    })
+
+    it('does not audit forged credentials', async () => {
+      const before = await queryAuditEvents({ type: 'token-verification-failed' })
+
+      await appFetch('/', { session: 'not-a-session-cookie' })
+      await appFetch('/api/protected', { session: 'not-a-session-cookie' })
+      await appFetch('/api/protected', { headers: { Authorization: 'Bearer not-a-token' } })
+
+      expect(await queryAuditEvents({ type: 'token-verification-failed' })).toHaveLength(
+        before.length
+      )
+    })
+  })
+})
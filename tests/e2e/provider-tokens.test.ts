@@ -0,0 +1,70 @@
+// tests/e2e/provider-tokens.test.ts
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  ProviderConsentRequiredError,
+  getProviderAccessToken,
+  saveProviderToken,
+} from '@/lib/firebase/provider-tokens'
+import { appFetch, createSession, createTestUser, resetEmulators, type TestUser } from './helpers'
+
+describe('provider access tokens', () => {
+  let user: TestUser
+  let session: string
+
+  beforeAll(async () => {
+    await resetEmulators()
+    user = await createTestUser()
+    session = (await createSession(user.idToken)).session!
+  })
+
+  it('only accepts tokens for providers linked to the account', async () => {
+    const response = await appFetch('/api/provider-tokens', {
+      method: 'POST',
+      session,
+      csrf: true,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ providerId: 'github.com', accessToken: 'gho_test', scopes: [] }),
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ code: 'invalid-request' })
+  })
+
+  it('returns the stored token and accumulates granted scopes', async () => {
+    await saveProviderToken(user.uid, {
+      providerId: 'github.com',
+      accessToken: 'gho_first',
+      scopes: ['user:email'],
+    })
+    await saveProviderToken(user.uid, {
+      providerId: 'github.com',
+      accessToken: 'gho_second',
+      scopes: ['read:org'],
+    })
+
+    expect(await getProviderAccessToken(user.uid, 'github.com', ['user:email', 'read:org'])).toBe(
+      'gho_second'
+    )
+  })
+
+  it('asks for consent when a scope or the token is missing', async () => {
+    const missingScope = getProviderAccessToken(user.uid, 'github.com', ['repo'])
+    await expect(missingScope).rejects.toBeInstanceOf(ProviderConsentRequiredError)
+    await expect(missingScope).rejects.toMatchObject({ providerId: 'github.com', scopes: ['repo'] })
+
+    await expect(getProviderAccessToken(user.uid, 'google.com')).rejects.toMatchObject({
+      code: 'provider-consent-required',
+    })
+  })
+
+  it('lists grants without the tokens', async () => {
+    const response = await appFetch('/api/provider-tokens', { session })
+
+    expect(response.status).toBe(200)
+    const { grants } = await response.json()
+    expect(grants).toEqual([
+      expect.objectContaining({ providerId: 'github.com', scopes: ['user:email', 'read:org'] }),
+    ])
+    expect(JSON.stringify(grants)).not.toContain('gho_')
+  })
+})
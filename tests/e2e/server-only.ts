@@ -0,0 +1,3 @@
+// tests/e2e/server-only.ts
+// Stands in for the `server-only` guard so server modules can be imported by tests
+export {}
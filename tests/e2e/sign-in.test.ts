@@ -0,0 +1,43 @@
+// tests/e2e/sign-in.test.ts
+import { beforeAll, describe, expect, it } from 'vitest'
+import { appFetch, createSession, createTestUser, resetEmulators } from './helpers'
+
+describe('sign-in', () => {
+  beforeAll(resetEmulators)
+
+  it('exchanges an ID token for an httpOnly session cookie', async () => {
+    const user = await createTestUser()
+    const { response, session } = await createSession(user.idToken)
+
+    expect(response.status).toBe(200)
+    expect(session).toBeTruthy()
+    expect(response.headers.getSetCookie().find((cookie) => cookie.startsWith('__session=')))
+      .toMatch(/HttpOnly/i)
+
+    const current = await appFetch('/api/session', { session: session! })
+    expect(await current.json()).toEqual({ uid: user.uid })
+  })
+
+  it('rejects an invalid ID token', async () => {
+    const { response, session } = await createSession('not-a-token')
+
+    expect(response.status).toBe(401)
+    expect(session).toBeNull()
+  })
+
+  it('requires an ID token', async () => {
+    const response = await appFetch('/api/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    })
+
+    expect(response.status).toBe(400)
+  })
+
+  it('reports no session without a cookie', async () => {
+    const response = await appFetch('/api/session')
+
+    expect(response.status).toBe(401)
+  })
+})
@@ -0,0 +1,125 @@
+// tests/unit/rate-limit.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRateLimiter, rateLimitResponse, type LockoutPolicy } from '@/lib/rate-limit/limiter'
+import { MemoryRateLimitStore } from '@/lib/rate-limit/store'
+
+const RULE = { limit: 3, windowMs: 60 * 1000 }
+
+const POLICY: LockoutPolicy = {
+  maxFailures: 3,
+  failureWindowMs: 15 * 60 * 1000,
+  baseLockoutMs: 60 * 1000,
+  maxLockoutMs: 3 * 60 * 1000,
+  strikeWindowMs: 24 * 60 * 60 * 1000,
+}
+
+describe('MemoryRateLimitStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts hits within a window and starts a new one once it expires', async () => {
+    const store = new MemoryRateLimitStore()
+
+    await store.increment('key', 1000)
+    expect(await store.increment('key', 1000)).toMatchObject({ count: 2 })
+
+    vi.advanceTimersByTime(1000)
+    expect(await store.get('key')).toBeNull()
+    expect(await store.increment('key', 1000)).toMatchObject({ count: 1 })
+  })
+
+  it('forgets a key on reset', async () => {
+    const store = new MemoryRateLimitStore()
+
+    await store.increment('key', 1000)
+    await store.reset('key')
+
+    expect(await store.get('key')).toBeNull()
+  })
+})
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('refuses requests over the limit until the window resets', async () => {
+    const limiter = createRateLimiter(new MemoryRateLimitStore(), POLICY)
+
+    for (let i = 0; i < RULE.limit; i++) {
+      expect((await limiter.consume('client', RULE)).allowed).toBe(true)
+    }
+
+    vi.advanceTimersByTime(20 * 1000)
+    expect(await limiter.consume('client', RULE)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 40 * 1000,
+    })
+    // Other keys have their own counters
+    expect((await limiter.consume('other', RULE)).allowed).toBe(true)
+
+    vi.advanceTimersByTime(40 * 1000)
+    expect((await limiter.consume('client', RULE)).allowed).toBe(true)
+  })
+
+  it('locks a key out after repeated failures, doubling each lockout', async () => {
+    const limiter = createRateLimiter(new MemoryRateLimitStore(), POLICY)
+    const fail = async (times: number) => {
+      for (let i = 0; i < times; i++) {
+        await limiter.recordFailure('ip:203.0.113.7')
+      }
+    }
+
+    await fail(POLICY.maxFailures - 1)
+    expect(await limiter.lockedOutFor('ip:203.0.113.7')).toBe(0)
+
+    await fail(1)
+    expect(await limiter.lockedOutFor('ip:203.0.113.7')).toBe(60 * 1000)
+
+    vi.advanceTimersByTime(60 * 1000)
+    expect(await limiter.lockedOutFor('ip:203.0.113.7')).toBe(0)
+
+    await fail(POLICY.maxFailures)
+    expect(await limiter.lockedOutFor('ip:203.0.113.7')).toBe(2 * 60 * 1000)
+
+    vi.advanceTimersByTime(2 * 60 * 1000)
+    await fail(POLICY.maxFailures)
+    // Capped at maxLockoutMs
+    expect(await limiter.lockedOutFor('ip:203.0.113.7')).toBe(3 * 60 * 1000)
+  })
+
+  it('starts over once the strike window has passed', async () => {
+    const limiter = createRateLimiter(new MemoryRateLimitStore(), POLICY)
+    const fail = async () => {
+      for (let i = 0; i < POLICY.maxFailures; i++) {
+        await limiter.recordFailure('ip:203.0.113.7')
+      }
+    }
+
+    await fail()
+    vi.advanceTimersByTime(POLICY.strikeWindowMs)
+    await fail()
+
+    expect(await limiter.lockedOutFor('ip:203.0.113.7')).toBe(60 * 1000)
+  })
+})
+
+describe('rateLimitResponse', () => {
+  it('answers 429 with Retry-After in whole seconds', async () => {
+    const response = rateLimitResponse(1500, new Headers())
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('2')
+    expect(await response.json()).toMatchObject({ code: 'rate-limited' })
+  })
+})
@@ -1,24 +1,99 @@
 // types/auth.ts
-import type { User, UserCredential } from 'firebase/auth'
+import type { MultiFactorResolver, User, UserCredential } from 'firebase/auth'
+import type { PendingLink } from '@/lib/firebase/auth'
 
-export interface AuthUser {
+// The `users/{uid}` Firestore document. Identity fields are synced from the
+// auth provider on sign-in; the rest is edited by the user on /profile.
+export interface UserProfile {
   uid: string
   email: string | null
   displayName: string | null
   photoURL: string | null
   emailVerified: boolean
+  providerIds: string[]
+  timezone: string | null
+  preferences: UserPreferences
+  createdAt: Date | null
+  lastSignInAt: Date | null
+  updatedAt: Date | null
+}
+
+export type Theme = 'system' | 'light' | 'dark'
+
+export interface UserPreferences {
+  theme: Theme
+  emailNotifications: boolean
+}
+
+// The signed-in user as the server (session cookie) and the client (Firebase)
+// both see it, so pages can render before Firebase initializes
+export interface CurrentUser {
+  uid: string
+  email: string | null
+  displayName: string | null
+  photoURL: string | null
+  emailVerified: boolean
+  isGuest: boolean
+  roles: Role[]
+  // UID of the admin impersonating this user, see lib/firebase/impersonation.ts
+  impersonatedBy: string | null
+  // UTC date strings, as in Firebase user metadata
+  creationTime: string | null
+  lastSignInTime: string | null
 }
 
 export interface AuthContextType {
   user: User | null
+  // The server-verified user until Firebase initializes, then the Firebase user
+  currentUser: CurrentUser | null
   loading: boolean
-  signInWithGoogle: () => Promise<void>
-  signInWithGitHub: () => Promise<void>
-  signInWithTwitter: () => Promise<void>
-  signOut: () => Promise<void>
+  // Signed in anonymously; signing in with a provider upgrades the account
+  isGuest: boolean
+  signInAsGuest: () => Promise<void>
+  // Sign in with a provider from the registry (lib/firebase/providers.ts)
+  signIn: (providerId: AuthProvider, returnTo?: string) => Promise<void>
+  signInWithEmail: (email: string, password: string) => Promise<void>
+  signUpWithEmail: (email: string, password: string, displayName?: string) => Promise<void>
+  sendSignInLink: (email: string) => Promise<void>
+  completeEmailLinkSignIn: (email: string, url: string) => Promise<void>
+  sendPasswordReset: (email: string) => Promise<void>
+  sendVerificationEmail: () => Promise<void>
+  checkEmailVerified: () => Promise<boolean>
+  pendingLink: PendingLink | null
+  completePendingLink: (method: AuthProvider | 'password', password?: string) => Promise<void>
+  cancelPendingLink: () => void
+  mfaResolver: MultiFactorResolver | null
+  finishMfaSignIn: (credential: UserCredential) => Promise<void>
+  cancelMfaSignIn: () => void
+  linkProvider: (providerName: AuthProvider) => Promise<void>
+  unlinkProvider: (providerName: AuthProvider) => Promise<void>
+  // Grant the provider more scopes, or renew its stored access token
+  authorizeProvider: (providerName: AuthProvider, scopes?: string[]) => Promise<void>
+  ensureSession: () => Promise<void>
+  profile: UserProfile | null
+  roles: Role[]
+  hasRole: (...roles: Role[]) => boolean
+  refreshRoles: () => Promise<void>
+  signOut: (options?: { everywhere?: boolean }) => Promise<void>
+  // Admins only: sign in as the user for support, keeping the admin session aside
+  impersonate: (uid: string) => Promise<void>
+  // Back to the admin's own session
+  stopImpersonating: () => Promise<void>
+  // Health of the signed-in user's ID token; null when signed out
+  sessionStatus: SessionStatus | null
+  expiresAt: Date | null
+}
+
+export type SessionStatus = 'active' | 'refreshing' | 'expiring' | 'expired' | 'offline'
+
+export type Role = 'admin' | 'editor' | 'viewer'
+
+// Custom claims set server-side via adminAuth.setCustomUserClaims
+export interface CustomClaims {
+  roles?: Role[]
 }
 
-export interface DecodedIdToken {
+export interface DecodedIdToken extends CustomClaims {
   uid: string
   email?: string
   email_verified?: boolean
@@ -30,6 +105,18 @@ export interface DecodedIdToken {
   iss: string
   sub: string
   auth_time: number
+  // Developer claim on impersonated sessions
+  impersonatedBy?: string
+  firebase?: FirebaseTokenInfo
+}
+
+// The `firebase` claim; second-factor fields are set when the sign-in used MFA
+export interface FirebaseTokenInfo {
+  sign_in_provider: string
+  sign_in_second_factor?: string
+  second_factor_identifier?: string
+  identities?: Record<string, unknown>
 }
 
-export type AuthProvider = 'google' | 'github' | 'twitter'
+// ID of a provider in the registry, e.g. 'google' or a custom OIDC/SAML entry
+export type AuthProvider = string
@@ -0,0 +1,22 @@
+// utils/apiFetch.ts
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from '@/lib/edge/csrf'
+
+function readCookie(name: string): string | null {
+  const match = document.cookie.split('; ').find((cookie) => cookie.startsWith(`${name}=`))
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null
+}
+
+// fetch() for our own API routes: attaches the CSRF token to state-changing
+// requests so cookie-authenticated calls pass the middleware check
+export function apiFetch(input: RequestInfo | URL, init: RequestInit = {}) {
+  const method = (init.method ?? 'GET').toUpperCase()
+  const token = readCookie(CSRF_COOKIE_NAME)
+
+  if (method === 'GET' || method === 'HEAD' || !token) {
+    return fetch(input, init)
+  }
+
+  const headers = new Headers(init.headers)
+  headers.set(CSRF_HEADER_NAME, token)
+  return fetch(input, { ...init, headers })
+}
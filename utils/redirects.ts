@@ -0,0 +1,34 @@
+// utils/redirects.ts
+export const DEFAULT_RETURN_TO = '/dashboard'
+
+// Set by middleware so server layouts know which page was requested
+export const REQUEST_PATH_HEADER = 'x-request-path'
+
+// Only same-origin relative paths are accepted, to prevent open redirects
+export function sanitizeReturnTo(value: string | null | undefined, fallback = DEFAULT_RETURN_TO): string {
+  if (
+    !value ||
+    !value.startsWith('/') ||
+    value.startsWith('//') ||
+    value.includes('\\') ||
+    [...value].some((char) => char.charCodeAt(0) < 0x20)
+  ) {
+    return fallback
+  }
+
+  try {
+    const url = new URL(value, 'http://localhost')
+    if (url.origin !== 'http://localhost' || url.pathname.startsWith('/login')) {
+      return fallback
+    }
+    return `${url.pathname}${url.search}${url.hash}`
+  } catch {
+    return fallback
+  }
+}
+
+// Login URL that sends the user back to `returnTo` afterwards
+export function loginUrl(returnTo?: string | null): string {
+  const safeReturnTo = sanitizeReturnTo(returnTo, '')
+  return safeReturnTo ? `/login?returnTo=${encodeURIComponent(safeReturnTo)}` : '/login'
+}
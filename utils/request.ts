@@ -0,0 +1,19 @@
+// utils/request.ts
+
+// Proxies in front of the app that append to X-Forwarded-For. The client can
+// write anything into the header, so only the entry added by the outermost
+// trusted proxy is believed.
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 0)
+
+// Client IP for rate limiting and the audit log. Without TRUSTED_PROXY_HOPS this
+// is x-real-ip, which the platform's proxy (e.g. Vercel, nginx) overwrites.
+export function getClientIp(headers: Headers): string | null {
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const forwardedFor = (headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+    return forwardedFor[forwardedFor.length - TRUSTED_PROXY_HOPS] ?? null
+  }
+  return headers.get('x-real-ip')
+}
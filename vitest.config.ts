@@ -0,0 +1,37 @@
+// vitest.config.ts
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+import { EMULATOR_ENV } from './tests/e2e/env'
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: /^@\//, replacement: fileURLToPath(new URL('./', import.meta.url)) },
+      { find: 'server-only', replacement: fileURLToPath(new URL('./tests/e2e/server-only.ts', import.meta.url)) },
+    ],
+  },
+  test: {
+    // Every e2e file shares the emulators and one dev server
+    fileParallelism: false,
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'unit',
+          include: ['tests/unit/**/*.test.ts'],
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: 'e2e',
+          include: ['tests/e2e/**/*.test.ts'],
+          globalSetup: ['tests/e2e/global-setup.ts'],
+          env: EMULATOR_ENV,
+          testTimeout: 60_000,
+          hookTimeout: 180_000,
+        },
+      },
+    ],
+  },
+})